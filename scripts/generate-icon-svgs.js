@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+/**
+ * Script to generate src/iconSvgs.ts, the SVG markup of every icon in ICONS,
+ * from an unpacked @elastic/eui package:
+ *
+ *   npm pack @elastic/eui@106.7.0 && tar xzf elastic-eui-106.7.0.tgz
+ *   node scripts/generate-icon-svgs.js package
+ *
+ * EUI ships its icons as React components, so each one is bundled with esbuild
+ * against a small JSX runtime that prints markup instead of creating elements.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const esbuild = require('esbuild');
+
+const euiPackage = process.argv[2];
+if (!euiPackage) {
+    console.log('Usage: node scripts/generate-icon-svgs.js <path to unpacked @elastic/eui package>');
+    process.exit(1);
+}
+
+const rootDir = path.join(__dirname, '..');
+const iconDir = path.join(euiPackage, 'es', 'components', 'icon');
+const outputPath = path.join(rootDir, 'src', 'iconSvgs.ts');
+
+// Attributes SVG spells in camelCase; everything else React camelCases is kebab-case
+const CAMEL_CASE_ATTRIBUTES = new Set(['viewBox', 'preserveAspectRatio', 'gradientUnits', 'gradientTransform', 'patternUnits', 'patternContentUnits', 'maskUnits', 'clipPathUnits']);
+
+const JSX_RUNTIME = `
+const toAttribute = name => {
+    if (${JSON.stringify([...CAMEL_CASE_ATTRIBUTES])}.includes(name)) return name;
+    if (name === 'className') return 'class';
+    if (name === 'xlinkHref') return 'xlink:href';
+    return name.replace(/[A-Z]/g, c => '-' + c.toLowerCase());
+};
+const escape = value => String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+export const jsx = (tag, props, ...children) => {
+    const attributes = Object.entries(props || {})
+        .filter(([name, value]) => value !== undefined && value !== null && name !== 'children' && !name.startsWith('aria-'))
+        .map(([name, value]) => ' ' + toAttribute(name) + '="' + escape(value) + '"')
+        .join('');
+    const content = children.flat().filter(child => child !== null && child !== undefined && child !== false).join('');
+    return content ? '<' + tag + attributes + '>' + content + '</' + tag + '>' : '<' + tag + attributes + '/>';
+};
+export const createElement = jsx;
+export default { createElement: jsx };
+// Gradient ids only need to be unique within one icon
+export const htmlIdGenerator = prefix => suffix => prefix + '_' + suffix;
+`;
+
+/**
+ * Map icon names to asset files. docs-builder uses both the asset file names
+ * (app_discover) and EUI's icon types (analyzeEvent), which icon_map.js maps to assets.
+ */
+function readTypeToPath() {
+    const source = fs.readFileSync(path.join(iconDir, 'icon_map.js'), 'utf8');
+    const typeToPath = {};
+    const pattern = /^ {2}([A-Za-z0-9_]+): (?:withMetadata\()?function[^{]*\{\s*return import\('\.\/assets\/([^']+)'\)/gm;
+    let match;
+    while ((match = pattern.exec(source)) !== null) {
+        typeToPath[match[1]] = match[2];
+    }
+    return typeToPath;
+}
+
+function readIconNames() {
+    const source = fs.readFileSync(path.join(rootDir, 'src', 'roleCompletionProvider.ts'), 'utf8');
+    const list = source.match(/export const ICONS = \[([\s\S]*?)\];/)[1];
+    return [...list.matchAll(/'([^']+)'/g)].map(match => match[1]);
+}
+
+async function renderIcon(assetPath) {
+    const result = await esbuild.build({
+        entryPoints: [assetPath],
+        bundle: true,
+        write: false,
+        format: 'cjs',
+        platform: 'node',
+        logLevel: 'silent',
+        plugins: [{
+            name: 'svg-runtime',
+            setup(build) {
+                build.onResolve({ filter: /^(react|@emotion\/react|(\.\.\/)+services)$/ }, () => ({ path: 'runtime', namespace: 'svg-runtime' }));
+                build.onLoad({ filter: /.*/, namespace: 'svg-runtime' }, () => ({ contents: JSX_RUNTIME, loader: 'js' }));
+            }
+        }]
+    });
+
+    const module = { exports: {} };
+    new Function('module', 'exports', 'require', result.outputFiles[0].text)(module, module.exports, require);
+    return module.exports.icon({});
+}
+
+async function main() {
+    const typeToPath = readTypeToPath();
+    const entries = [];
+    const missing = [];
+
+    for (const name of readIconNames()) {
+        const asset = [name, typeToPath[name]]
+            .filter(Boolean)
+            .map(file => path.join(iconDir, 'assets', `${file}.js`))
+            .find(file => fs.existsSync(file));
+        if (!asset) {
+            missing.push(name);
+            continue;
+        }
+        entries.push(`    ${JSON.stringify(name)}: ${JSON.stringify(await renderIcon(asset))}`);
+    }
+
+    const header = fs.readFileSync(path.join(__dirname, 'copyright-header.txt'), 'utf8').trim();
+    const version = JSON.parse(fs.readFileSync(path.join(euiPackage, 'package.json'), 'utf8')).version;
+    const content = `${header}
+
+// Generated by scripts/generate-icon-svgs.js from @elastic/eui ${version}. Do not edit by hand.
+
+/**
+ * SVG markup of the icons docs-builder renders for {icon} roles, keyed by icon name
+ */
+export const ICON_SVGS: Readonly<Record<string, string>> = {
+${entries.join(',\n')}
+};
+`;
+    fs.writeFileSync(outputPath, content);
+
+    console.log(`✅ Wrote ${entries.length} icons to ${path.relative(rootDir, outputPath)}`);
+    if (missing.length > 0) {
+        console.log(`⚠️  No SVG found for: ${missing.join(', ')}`);
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
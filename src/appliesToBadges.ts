@@ -0,0 +1,245 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { VersionsCache } from './versionsCache';
+import { Frontmatter } from './documentModel';
+import { analyzeAppliesToEntries, compareVersions, parseVersion, ParsedVersionEntry } from './appliesToValidator';
+
+/**
+ * Badge text for applies_to values, as docs-builder renders it
+ * (for example "Stack GA since 9.1, Serverless Preview").
+ * Shared by the applies_to hover and the preview.
+ */
+
+export interface AppliesToBadge {
+    key: string;
+    /** Product or deployment name, e.g. "Stack" */
+    label: string;
+    /** Lifecycle and version, e.g. "GA since 9.1". Empty when the value only names the product. */
+    lifecycle: string;
+    /** The version is newer than the latest release in versions.yml */
+    planned: boolean;
+    /** Latest release in versions.yml, if the product is versioned and the cache is loaded */
+    currentVersion?: string;
+}
+
+/**
+ * A 'key: value' pair of an applies_to block
+ */
+export interface AppliesToLine {
+    line: number;
+    key: string;
+    value: string;
+    /** 'deployment' or 'serverless' for nested keys */
+    parentKey?: string;
+}
+
+const APPLIES_TO_LABELS: Record<string, string> = {
+    stack: 'Stack',
+    deployment: 'Deployment',
+    serverless: 'Serverless',
+    product: 'Product',
+    ece: 'ECE',
+    eck: 'ECK',
+    ech: 'ECH',
+    ess: 'ECH',
+    self: 'Self-managed',
+    elasticsearch: 'Serverless Elasticsearch',
+    observability: 'Serverless Observability',
+    security: 'Serverless Security',
+    ecctl: 'ECCTL',
+    curator: 'Curator',
+    apm_agent_android: 'APM Android Agent',
+    apm_agent_dotnet: 'APM .NET Agent',
+    apm_agent_go: 'APM Go Agent',
+    apm_agent_ios: 'APM iOS Agent',
+    apm_agent_java: 'APM Java Agent',
+    apm_agent_node: 'APM Node.js Agent',
+    apm_agent_php: 'APM PHP Agent',
+    apm_agent_python: 'APM Python Agent',
+    apm_agent_ruby: 'APM Ruby Agent',
+    apm_agent_rum: 'APM RUM Agent',
+    edot_ios: 'EDOT iOS',
+    edot_android: 'EDOT Android',
+    edot_dotnet: 'EDOT .NET',
+    edot_java: 'EDOT Java',
+    edot_node: 'EDOT Node.js',
+    edot_php: 'EDOT PHP',
+    edot_python: 'EDOT Python',
+    edot_cf_aws: 'EDOT Cloud Forwarder for AWS',
+    edot_cf_azure: 'EDOT Cloud Forwarder for Azure',
+    edot_cf_gcp: 'EDOT Cloud Forwarder for GCP',
+    edot_collector: 'EDOT Collector'
+};
+
+const LIFECYCLE_LABELS: Record<string, string> = {
+    ga: 'GA',
+    preview: 'Preview',
+    beta: 'Beta',
+    deprecated: 'Deprecated',
+    removed: 'Removed',
+    unavailable: 'Unavailable',
+    planned: 'Planned',
+    development: 'Development',
+    discontinued: 'Discontinued'
+};
+
+const KEY_VALUE = /^(\s*)([a-zA-Z_][a-zA-Z0-9_]*)\s*:\s*(.*)$/;
+
+/**
+ * Badge for one applies_to key. When the value lists several lifecycle entries,
+ * the one that applies to the current release is shown; if they are all in the future,
+ * the earliest one is shown as planned.
+ */
+export function getAppliesToBadge(key: string, value: string): AppliesToBadge {
+    const label = APPLIES_TO_LABELS[key] ?? key;
+    const currentVersion = VersionsCache.getInstance().getVersion(key);
+    const current = currentVersion ? parseVersion(currentVersion) : null;
+
+    const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+    const { parsedEntries } = analyzeAppliesToEntries(entries);
+    if (parsedEntries.length === 0) {
+        return { key, label, lifecycle: '', planned: false, currentVersion };
+    }
+
+    const isFuture = (entry: ParsedVersionEntry): boolean =>
+        !!current && !!entry.startVersion && compareVersions(entry.startVersion, current) > 0;
+    const byStart = (a: ParsedVersionEntry, b: ParsedVersionEntry): number =>
+        compareVersions(a.startVersion ?? [], b.startVersion ?? []);
+
+    const available = parsedEntries.filter(entry => !isFuture(entry)).sort(byStart);
+    const entry = available.length > 0
+        ? available[available.length - 1]
+        : parsedEntries.sort(byStart)[0];
+
+    return { key, label, lifecycle: describeEntry(entry, isFuture(entry)), planned: isFuture(entry), currentVersion };
+}
+
+function describeEntry(entry: ParsedVersionEntry, planned: boolean): string {
+    if (planned) {
+        return entry.lifecycle === 'deprecated' ? 'Deprecation planned'
+            : entry.lifecycle === 'removed' ? 'Removal planned'
+            : 'Planned';
+    }
+
+    const state = LIFECYCLE_LABELS[entry.lifecycle] ?? entry.lifecycle;
+    if (!entry.startVersion) {
+        return state;
+    }
+
+    const version = entry.startVersion.join('.');
+    if (entry.isRange && entry.endVersion) {
+        return `${state} from ${version} to ${entry.endVersion.join('.')}`;
+    }
+    if (entry.isExact || entry.lifecycle === 'removed') {
+        return `${state} in ${version}`;
+    }
+    return `${state} since ${version}`;
+}
+
+/**
+ * Badges for the 'key: value' pairs of an applies_to block. Keys that only group
+ * others (deployment:, serverless: with nested keys) don't get a badge of their own.
+ */
+export function getAppliesToBadges(lines: AppliesToLine[]): AppliesToBadge[] {
+    return lines
+        .filter(line => line.value || !lines.some(other => other.parentKey === line.key))
+        .map(line => getAppliesToBadge(line.key, line.value));
+}
+
+/**
+ * Text of a badge, e.g. "Stack GA since 9.1"
+ */
+export function formatAppliesToBadge(badge: AppliesToBadge): string {
+    return badge.lifecycle ? `${badge.label} ${badge.lifecycle}` : badge.label;
+}
+
+/**
+ * Text of a set of badges, e.g. "Stack GA since 9.1, Serverless Preview"
+ */
+export function formatAppliesToBadges(badges: AppliesToBadge[]): string {
+    return badges.map(formatAppliesToBadge).join(', ');
+}
+
+/**
+ * Parse the YAML of an applies_to block (frontmatter or a section-level fence).
+ * Nested keys under 'deployment:' or 'serverless:' keep their parent.
+ */
+export function parseAppliesToLines(lines: readonly string[], firstLine = 0): AppliesToLine[] {
+    const result: AppliesToLine[] = [];
+    let parent: { key: string; indent: number } | undefined;
+
+    lines.forEach((text, index) => {
+        const trimmed = text.trim();
+        if (!trimmed || trimmed.startsWith('#')) {
+            return;
+        }
+        const match = text.match(KEY_VALUE);
+        if (!match) {
+            return;
+        }
+
+        const [, indentText, key, rawValue] = match;
+        const indent = indentText.length;
+        const value = rawValue.replace(/\s+#.*$/, '').replace(/^["']|["']$/g, '').trim();
+
+        if (parent && indent <= parent.indent) {
+            parent = undefined;
+        }
+        result.push({ line: firstLine + index, key, value, parentKey: parent?.key });
+        if (!value && !parent) {
+            parent = { key, indent };
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Parse inline applies_to content, e.g. "stack: ga 9.1, serverless: preview"
+ */
+export function parseAppliesToInline(content: string, line = 0): AppliesToLine[] {
+    const result: AppliesToLine[] = [];
+    const pattern = /([a-zA-Z_][a-zA-Z0-9_]*)\s*:\s*(.*?)\s*(?=,\s*[a-zA-Z_][a-zA-Z0-9_]*\s*:|$)/g;
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+        result.push({ line, key: match[1], value: match[2] });
+        if (match[0].length === 0) {
+            pattern.lastIndex++;
+        }
+    }
+    return result;
+}
+
+/**
+ * The applies_to block of a page's frontmatter, with document line numbers
+ */
+export function getFrontmatterAppliesToLines(frontmatter: Frontmatter): AppliesToLine[] {
+    const start = frontmatter.lines.findIndex(line => /^applies_to\s*:\s*$/.test(line));
+    if (start === -1) {
+        return [];
+    }
+
+    let end = start + 1;
+    while (end < frontmatter.lines.length && (frontmatter.lines[end].trim() === '' || /^\s/.test(frontmatter.lines[end]))) {
+        end++;
+    }
+    // Frontmatter lines start after the opening ---
+    return parseAppliesToLines(frontmatter.lines.slice(start + 1, end), frontmatter.startLine + start + 2);
+}
@@ -0,0 +1,124 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache, isAppliesToFence } from './documentModel';
+import {
+    AppliesToLine,
+    getAppliesToBadges,
+    formatAppliesToBadges,
+    parseAppliesToLines,
+    parseAppliesToInline,
+    getFrontmatterAppliesToLines
+} from './appliesToBadges';
+
+/**
+ * Shows the badge text docs-builder renders for frontmatter applies_to entries,
+ * {applies_to} roles, section-level {applies_to} blocks and :applies_to: parameters.
+ */
+export class AppliesToHoverProvider implements vscode.HoverProvider {
+    provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Hover> {
+        try {
+            const found = this.findAppliesTo(document, position);
+            if (!found || found.lines.length === 0) {
+                return null;
+            }
+
+            const badges = getAppliesToBadges(found.lines);
+            if (badges.length === 0) {
+                return null;
+            }
+
+            const markdown = new vscode.MarkdownString();
+            markdown.appendMarkdown(`**Applies to:** ${formatAppliesToBadges(badges)}\n\n`);
+            for (const badge of badges.filter(b => b.planned)) {
+                markdown.appendMarkdown(`${badge.label} is shown as planned: the latest ${badge.label} release is ${badge.currentVersion}.\n\n`);
+            }
+            return new vscode.Hover(markdown, found.range);
+        } catch (error) {
+            outputChannel.appendLine(`Error in applies_to hover: ${error}`);
+            return null;
+        }
+    }
+
+    private findAppliesTo(document: vscode.TextDocument, position: vscode.Position): { lines: AppliesToLine[]; range: vscode.Range } | undefined {
+        const model = documentModelCache.get(document);
+
+        // Inline roles
+        const role = model.roles.find(r => r.name === 'applies_to' && r.range.contains(position));
+        if (role) {
+            return { lines: parseAppliesToInline(role.content, position.line), range: role.range };
+        }
+
+        // :applies_to: directive parameters
+        for (const block of model.directives) {
+            const parameter = block.parameters.find(p => p.name === 'applies_to' && p.range.contains(position));
+            if (parameter) {
+                return { lines: parseAppliesToInline(parameter.value ?? '', position.line), range: parameter.range };
+            }
+        }
+
+        // Section-level ```{applies_to} blocks
+        const fence = model.codeFences.find(f =>
+            isAppliesToFence(f) && f.closingLine !== undefined && f.openingLine <= position.line && position.line <= f.closingLine);
+        if (fence) {
+            const lines = parseAppliesToLines(model.lines.slice(fence.openingLine + 1, fence.closingLine), fence.openingLine + 1);
+            return this.narrowToLine(document, lines, position.line) ?? { lines, range: fence.range };
+        }
+
+        // Frontmatter applies_to
+        if (model.frontmatter && position.line > model.frontmatter.startLine && position.line < model.frontmatter.endLine) {
+            const lines = getFrontmatterAppliesToLines(model.frontmatter);
+            if (lines.length === 0) {
+                return undefined;
+            }
+            const narrowed = this.narrowToLine(document, lines, position.line);
+            if (narrowed) {
+                return narrowed;
+            }
+            // The applies_to: line itself covers the whole block
+            const headerLine = model.frontmatter.startLine + 1 + model.frontmatter.lines.findIndex(l => /^applies_to\s*:/.test(l));
+            if (position.line === headerLine) {
+                return { lines, range: new vscode.Range(headerLine, 0, lines[lines.length - 1].line, model.lines[lines[lines.length - 1].line].length) };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * The hovered 'key: value' line, or a parent key with its nested keys
+     */
+    private narrowToLine(document: vscode.TextDocument, lines: AppliesToLine[], line: number): { lines: AppliesToLine[]; range: vscode.Range } | undefined {
+        const hovered = lines.find(l => l.line === line);
+        if (!hovered) {
+            return undefined;
+        }
+        const children = lines.filter(l => l.parentKey === hovered.key && !hovered.parentKey);
+        return {
+            lines: children.length > 0 && !hovered.value ? children : [hovered],
+            range: document.lineAt(line).range
+        };
+    }
+}
@@ -0,0 +1,115 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { PRODUCTS } from './products';
+import { VersionsCache } from './versionsCache';
+
+/**
+ * Read-only virtual documents for substitutions that don't live in a workspace file:
+ * the built-in product names and the versions fetched from docs-builder.
+ * Go to Definition on {{product.*}} and {{version.*}} opens these documents.
+ */
+
+export const BUILT_IN_SUBSTITUTIONS_SCHEME = 'elastic-docs-v3';
+export const PRODUCTS_DOCUMENT_URI = vscode.Uri.parse(`${BUILT_IN_SUBSTITUTIONS_SCHEME}:/products.yml`);
+export const VERSIONS_DOCUMENT_URI = vscode.Uri.parse(`${BUILT_IN_SUBSTITUTIONS_SCHEME}:/versions.yml`);
+
+export interface BuiltInDocument {
+    content: string;
+    /** Range of each substitution key (e.g. "product.kibana") within the document */
+    keyRanges: Record<string, vscode.Range>;
+}
+
+/**
+ * Render the built-in product names as YAML
+ */
+export function buildProductsDocument(): BuiltInDocument {
+    const lines = [
+        '# Built-in product name substitutions, available as {{product.<id>}}',
+        'products:'
+    ];
+    const keyRanges: Record<string, vscode.Range> = {};
+
+    for (const [key, value] of Object.entries(PRODUCTS)) {
+        keyRanges[`product.${key}`] = new vscode.Range(lines.length, 2, lines.length, 2 + key.length);
+        lines.push(`  ${key}: ${value}`);
+    }
+
+    return { content: lines.join('\n') + '\n', keyRanges };
+}
+
+/**
+ * Render the cached versions.yml entries as YAML, grouped by versioning system
+ */
+export function buildVersionsDocument(): BuiltInDocument {
+    const versions = VersionsCache.getInstance().getVersions();
+    const lines = [
+        '# Versions from docs-builder config/versions.yml, available as {{version.<id>}}',
+        '# Source: https://github.com/elastic/docs-builder/blob/main/config/versions.yml',
+        'versioning_systems:'
+    ];
+    const keyRanges: Record<string, vscode.Range> = {};
+
+    const systems = Object.keys(versions).filter(key => !key.endsWith('.base'));
+    if (systems.length === 0) {
+        lines.push('  # Versions have not been loaded yet');
+    }
+
+    for (const system of systems) {
+        lines.push(`  ${system}:`);
+
+        const base = versions[`${system}.base`];
+        if (base !== undefined) {
+            keyRanges[`version.${system}.base`] = new vscode.Range(lines.length, 4, lines.length, 8);
+            lines.push(`    base: ${base}`);
+        }
+
+        keyRanges[`version.${system}`] = new vscode.Range(lines.length, 4, lines.length, 11);
+        lines.push(`    current: ${versions[system]}`);
+    }
+
+    return { content: lines.join('\n') + '\n', keyRanges };
+}
+
+/**
+ * Serves the built-in substitution documents
+ */
+export class BuiltInSubstitutionContentProvider implements vscode.TextDocumentContentProvider {
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        if (uri.path === PRODUCTS_DOCUMENT_URI.path) {
+            return buildProductsDocument().content;
+        }
+        if (uri.path === VERSIONS_DOCUMENT_URI.path) {
+            return buildVersionsDocument().content;
+        }
+        return '';
+    }
+
+    /**
+     * Notify open virtual documents that their content changed (e.g. after a versions refresh)
+     */
+    refresh(): void {
+        this.onDidChangeEmitter.fire(PRODUCTS_DOCUMENT_URI);
+        this.onDidChangeEmitter.fire(VERSIONS_DOCUMENT_URI);
+    }
+}
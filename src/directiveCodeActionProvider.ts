@@ -0,0 +1,251 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { DIRECTIVES } from './directives';
+import { DIRECTIVE_DIAGNOSTIC_SOURCE } from './directiveDiagnosticProvider';
+import { documentModelCache, DirectiveBlock, ParsedDocument } from './documentModel';
+import { findClosestMatches } from './editDistance';
+import { ICONS, KEYBOARD_SHORTCUTS } from './roleCompletionProvider';
+
+const CLOSING_FENCE = /^:+\s*$/;
+
+// Inserts a snippet at a location in a document, so fixes can leave the cursor where the user has to type
+export const INSERT_SNIPPET_COMMAND = 'elastic-docs-v3.insertSnippetAt';
+
+/**
+ * Provides quick fixes for directive diagnostics: missing or mismatched closing fences,
+ * misspelled directive, parameter, icon and key names, missing braces and a missing ':url:' on agent-skill.
+ */
+export class DirectiveCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix
+    ];
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<(vscode.CodeAction | vscode.Command)[]> {
+        const codeActions: vscode.CodeAction[] = [];
+        const model = documentModelCache.get(document);
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIRECTIVE_DIAGNOSTIC_SOURCE) {
+                continue;
+            }
+
+            try {
+                codeActions.push(...this.createFixes(document, model, diagnostic));
+            } catch (err) {
+                outputChannel.appendLine(`[DirectiveCodeAction] Error processing diagnostic: ${err}`);
+            }
+        }
+
+        return codeActions;
+    }
+
+    private createFixes(document: vscode.TextDocument, model: ParsedDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const line = diagnostic.range.start.line;
+
+        switch (diagnostic.code) {
+            case 'missing_closing': {
+                const block = model.directives.find(b => b.openingRange.start.line === line);
+                return block ? this.createClosingFenceFixes(document, model, block, diagnostic) : [];
+            }
+            case 'mismatched_colons': {
+                const block = model.directives.find(b => b.closingRange?.start.line === line);
+                if (!block) {
+                    return [];
+                }
+                const fence = ':'.repeat(block.openingColons);
+                return [this.createFix(`Change closing fence to ${fence}`, diagnostic, edit => edit.replace(document.uri, block.closingRange!, fence), true)];
+            }
+            case 'unknown_directive': {
+                const block = model.directives.find(b => b.openingRange.start.line === line);
+                if (!block) {
+                    return [];
+                }
+                return findClosestMatches(block.name, DIRECTIVES.map(d => d.name)).map((suggestion, index) =>
+                    this.createFix(`Change to '${suggestion}'`, diagnostic, edit => edit.replace(document.uri, block.nameRange, suggestion), index === 0));
+            }
+            case 'unknown_parameter':
+                return this.createParameterFixes(document, model, diagnostic);
+            case 'unknown_icon': {
+                const role = model.roles.find(r => r.name === 'icon' && r.contentRange.start.isEqual(diagnostic.range.start));
+                if (!role) {
+                    return [];
+                }
+                return findClosestMatches(role.content.trim(), ICONS).map((suggestion, index) =>
+                    this.createFix(`Change to '${suggestion}'`, diagnostic, edit => edit.replace(document.uri, role.contentRange, suggestion), index === 0));
+            }
+            case 'unknown_key': {
+                const key = document.getText(diagnostic.range);
+                return findClosestMatches(key.toLowerCase(), KEYBOARD_SHORTCUTS).map((suggestion, index) =>
+                    this.createFix(`Change to '${suggestion}'`, diagnostic, edit => edit.replace(document.uri, diagnostic.range, suggestion), index === 0));
+            }
+            case 'missing_braces': {
+                const block = model.directives.find(b => b.openingRange.start.line === line);
+                if (!block) {
+                    return [];
+                }
+                const fixed = `${':'.repeat(block.openingColons)}{${block.name}}`;
+                return [this.createFix(`Change to ${fixed}`, diagnostic, edit => edit.replace(
+                    document.uri,
+                    new vscode.Range(line, 0, line, block.nameRange.end.character),
+                    fixed
+                ), true)];
+            }
+            case 'missing_closing_brace': {
+                const block = model.directives.find(b => b.openingRange.start.line === line);
+                if (!block) {
+                    return [];
+                }
+                return [this.createFix('Add closing brace }', diagnostic, edit => edit.insert(document.uri, block.nameRange.end, '}'), true)];
+            }
+            case 'missing_url': {
+                const block = model.directives.find(b => b.openingRange.start.line === line);
+                if (!block) {
+                    return [];
+                }
+                // Leave the cursor after ':url: ' rather than inserting a made-up URL
+                const existing = block.parameters.find(p => p.name === 'url');
+                const fix = new vscode.CodeAction("Add ':url:' parameter", vscode.CodeActionKind.QuickFix);
+                fix.diagnostics = [diagnostic];
+                fix.isPreferred = true;
+                fix.command = {
+                    title: "Add ':url:' parameter",
+                    command: INSERT_SNIPPET_COMMAND,
+                    arguments: existing
+                        ? [document.uri, existing.range, ':url: $0']
+                        : [document.uri, new vscode.Position(this.lastHeaderLine(block) + 1, 0), ':url: $0\n']
+                };
+                return [fix];
+            }
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * A closing fence written with the wrong number of colons is left unmatched by the parser,
+     * so offer to fix that line first; otherwise insert a new fence where the block has to end.
+     */
+    private createClosingFenceFixes(document: vscode.TextDocument, model: ParsedDocument, block: DirectiveBlock, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const fixes: vscode.CodeAction[] = [];
+        const fence = ':'.repeat(block.openingColons);
+        const limit = this.findBlockLimit(model, block);
+
+        const matchedClosings = new Set(model.directives.filter(b => b.closingRange).map(b => b.closingRange!.start.line));
+        for (let line = block.openingRange.start.line + 1; line < limit; line++) {
+            if (CLOSING_FENCE.test(model.lines[line]) && !matchedClosings.has(line)) {
+                fixes.push(this.createFix(`Change closing fence on line ${line + 1} to ${fence}`, diagnostic, edit => edit.replace(
+                    document.uri,
+                    new vscode.Range(line, 0, line, model.lines[line].length),
+                    fence
+                ), true));
+                break;
+            }
+        }
+
+        // Insert before the blank lines that precede the limit
+        let insertLine = limit;
+        while (insertLine - 1 > this.lastHeaderLine(block) && model.lines[insertLine - 1].trim() === '') {
+            insertLine--;
+        }
+        fixes.push(this.createFix(`Insert closing fence ${fence}`, diagnostic, edit => {
+            if (insertLine >= model.lines.length) {
+                const lastLine = model.lines.length - 1;
+                edit.insert(document.uri, new vscode.Position(lastLine, model.lines[lastLine].length), `\n${fence}`);
+            } else {
+                edit.insert(document.uri, new vscode.Position(insertLine, 0), `${fence}\n`);
+            }
+        }, fixes.length === 0));
+
+        return fixes;
+    }
+
+    /**
+     * The line an unclosed block must end before: its parent's closing fence,
+     * otherwise the next heading, otherwise the end of the document
+     */
+    private findBlockLimit(model: ParsedDocument, block: DirectiveBlock): number {
+        const openingLine = block.openingRange.start.line;
+        for (let parent = block.parent; parent; parent = parent.parent) {
+            if (parent.closingRange) {
+                return parent.closingRange.start.line;
+            }
+        }
+        const nextHeading = model.headings.find(heading => heading.line > openingLine);
+        return nextHeading ? nextHeading.line : model.lines.length;
+    }
+
+    /**
+     * The opening line or the last parameter line right below it
+     */
+    private lastHeaderLine(block: DirectiveBlock): number {
+        let line = block.openingRange.start.line;
+        for (const parameter of block.parameters) {
+            if (parameter.range.start.line === line + 1) {
+                line++;
+            }
+        }
+        return line;
+    }
+
+    private createParameterFixes(document: vscode.TextDocument, model: ParsedDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const line = diagnostic.range.start.line;
+        const block = model.directives.find(b => b.parameters.some(p => p.range.start.line === line));
+        const parameter = block?.parameters.find(p => p.range.start.line === line);
+        const directive = block && DIRECTIVES.find(d => d.name === block.name);
+        if (!block || !parameter || !directive) {
+            return [];
+        }
+
+        const fixes: vscode.CodeAction[] = [];
+        const used = new Set(block.parameters.map(p => p.name));
+        const suggestions = findClosestMatches(parameter.name, directive.parameters.filter(name => !used.has(name)));
+        suggestions.forEach((suggestion, index) => {
+            fixes.push(this.createFix(`Change to ':${suggestion}:'`, diagnostic, edit => edit.replace(
+                document.uri,
+                new vscode.Range(line, 1, line, 1 + parameter.name.length),
+                suggestion
+            ), index === 0));
+        });
+
+        fixes.push(this.createFix(`Remove parameter ':${parameter.name}:'`, diagnostic, edit => edit.delete(
+            document.uri,
+            new vscode.Range(line, 0, line + 1, 0)
+        ), suggestions.length === 0));
+
+        return fixes;
+    }
+
+    private createFix(title: string, diagnostic: vscode.Diagnostic, buildEdit: (edit: vscode.WorkspaceEdit) => void, isPreferred = false): vscode.CodeAction {
+        const fix = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        fix.diagnostics = [diagnostic];
+        fix.isPreferred = isPreferred;
+        const edit = new vscode.WorkspaceEdit();
+        buildEdit(edit);
+        fix.edit = edit;
+        return fix;
+    }
+}
@@ -20,222 +20,93 @@
 import * as vscode from 'vscode';
 import { DIRECTIVES } from './directives';
 import { outputChannel } from './logger';
-import { APPLIES_TO_KEYS } from './roleCompletionProvider';
+import { APPLIES_TO_KEYS, ICONS, KEYBOARD_SHORTCUTS } from './roleCompletionProvider';
 import { validateAppliesToValue } from './appliesToValidator';
+import { documentModelCache, isAppliesToFence, DirectiveBlock, ParsedDocument } from './documentModel';
+import { findDocsetForDocument } from './docsetNavigation';
+import { findClosestMatches, formatDidYouMean } from './editDistance';
+import { isIncludeDirective, isSnippetPath, resolveIncludeTarget, findIncludeCycle } from './includes';
 
-interface DirectiveBlock {
-    opening: string;
-    openingRange: vscode.Range;
-    name: string;
-    nameRange: vscode.Range;
-    argument?: string;
-    argumentRange?: vscode.Range;
-    closing?: string;
-    closingRange?: vscode.Range;
-    openingColons: number;
-    closingColons?: number;
-    parameters: Parameter[];
-    contentLines: number[];
-    isMalformed?: boolean;
-    missingClosingBrace?: boolean;
-}
-
-interface Parameter {
-    name: string;
-    value?: string;
-    range: vscode.Range;
-}
+export const DIRECTIVE_DIAGNOSTIC_SOURCE = 'Elastic Docs Directives';
 
 export class DirectiveDiagnosticProvider {
-    provideDiagnostics(document: vscode.TextDocument): vscode.Diagnostic[] {
+    async provideDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
         const diagnostics: vscode.Diagnostic[] = [];
         
-        // Parse the entire document for directive blocks
-        const directiveBlocks = this.parseDirectiveBlocks(document);
+        // Directive blocks come from the shared document model
+        const model = documentModelCache.get(document);
+        
+        // Include paths may be relative to the docset root
+        const docsetUri = model.directives.some(isIncludeDirective) ? await findDocsetForDocument(document.uri) : undefined;
+        const rootUri = docsetUri && vscode.Uri.joinPath(docsetUri, '..');
         
         // Validate each block
-        for (const block of directiveBlocks) {
-            const errors = this.validateDirectiveBlock(block, document);
+        for (const block of model.directives) {
+            const errors = await this.validateDirectiveBlock(block, document, rootUri);
             diagnostics.push(...errors);
         }
         
         // Validate inline {applies_to} roles
-        const inlineAppliesTo = this.validateInlineAppliesToRoles(document);
+        const inlineAppliesTo = this.validateInlineAppliesToRoles(model);
         diagnostics.push(...inlineAppliesTo);
         
-        // Validate section-level {applies_to} directives
-        const sectionAppliesTo = this.validateSectionAppliesToDirectives(document);
-        diagnostics.push(...sectionAppliesTo);
-        
-        return diagnostics;
-    }
-    
-    private parseDirectiveBlocks(document: vscode.TextDocument): DirectiveBlock[] {
-        const blocks: DirectiveBlock[] = [];
-        const blockStack: DirectiveBlock[] = [];
+        // Validate inline {icon} roles
+        const icons = this.validateIconRoles(model);
+        diagnostics.push(...icons);
         
-        outputChannel.appendLine(`[Elastic Docs] Starting to parse directive blocks for: ${document.uri.toString()}`);
+        // Validate inline {kbd} roles
+        const keys = this.validateKeyboardRoles(model);
+        diagnostics.push(...keys);
         
-        for (let lineNum = 0; lineNum < document.lineCount; lineNum++) {
-            const line = document.lineAt(lineNum);
-            const lineText = line.text;
-            
-            // Check for properly formatted opening directive
-            const openingMatch = lineText.match(/^(:{3,})\{([a-zA-Z][a-zA-Z0-9_-]*)\}(?:\s+(.*))?$/);
-            if (openingMatch) {
-                outputChannel.appendLine(`[Elastic Docs] Line ${lineNum}: Found opening directive: ${openingMatch[2]} (${openingMatch[1].length} colons) - ${lineText}`);
-                const newBlock = {
-                    opening: lineText,
-                    openingRange: new vscode.Range(lineNum, 0, lineNum, lineText.length),
-                    name: openingMatch[2],
-                    nameRange: new vscode.Range(lineNum, openingMatch[1].length + 1, lineNum, openingMatch[1].length + 1 + openingMatch[2].length),
-                    argument: openingMatch[3],
-                    argumentRange: openingMatch[3] ? new vscode.Range(lineNum, openingMatch[1].length + openingMatch[2].length + 2, lineNum, lineText.length) : undefined,
-                    openingColons: openingMatch[1].length,
-                    parameters: [],
-                    contentLines: []
-                };
-                blocks.push(newBlock);
-                blockStack.push(newBlock);
-                outputChannel.appendLine(`[Elastic Docs] Stack after adding '${newBlock.name}': ${blockStack.map(b => `${b.name}(${b.openingColons})`).join(', ')}`);
-                continue;
-            }
-            
-            // Check for malformed opening directive (missing closing brace)
-            const malformedMissingBraceMatch = lineText.match(/^(:{3,})\{([a-zA-Z][a-zA-Z0-9_-]*)(?:\s+(.*))?$/);
-            if (malformedMissingBraceMatch) {
-                const newBlock = {
-                    opening: lineText,
-                    openingRange: new vscode.Range(lineNum, 0, lineNum, lineText.length),
-                    name: malformedMissingBraceMatch[2],
-                    nameRange: new vscode.Range(lineNum, malformedMissingBraceMatch[1].length + 1, lineNum, malformedMissingBraceMatch[1].length + 1 + malformedMissingBraceMatch[2].length),
-                    argument: malformedMissingBraceMatch[3],
-                    argumentRange: malformedMissingBraceMatch[3] ? new vscode.Range(lineNum, malformedMissingBraceMatch[1].length + malformedMissingBraceMatch[2].length + 2, lineNum, lineText.length) : undefined,
-                    openingColons: malformedMissingBraceMatch[1].length,
-                    parameters: [],
-                    contentLines: [],
-                    isMalformed: true,
-                    missingClosingBrace: true
-                };
-                blocks.push(newBlock);
-                blockStack.push(newBlock);
-                continue;
-            }
-            
-            // Check for malformed opening directive (missing braces entirely)
-            const malformedMatch = lineText.match(/^(:{3,})([a-zA-Z][a-zA-Z0-9_-]*)(?:\s+(.*))?$/);
-            if (malformedMatch) {
-                const newBlock = {
-                    opening: lineText,
-                    openingRange: new vscode.Range(lineNum, 0, lineNum, lineText.length),
-                    name: malformedMatch[2],
-                    nameRange: new vscode.Range(lineNum, malformedMatch[1].length, lineNum, malformedMatch[1].length + malformedMatch[2].length),
-                    argument: malformedMatch[3],
-                    argumentRange: malformedMatch[3] ? new vscode.Range(lineNum, malformedMatch[1].length + malformedMatch[2].length + 1, lineNum, lineText.length) : undefined,
-                    openingColons: malformedMatch[1].length,
-                    parameters: [],
-                    contentLines: [],
-                    isMalformed: true
-                };
-                blocks.push(newBlock);
-                blockStack.push(newBlock);
-                continue;
-            }
-            
-            // Check for closing directive
-            const closingMatch = lineText.match(/^(:+)\s*$/);
-            if (closingMatch && blockStack.length > 0) {
-                const colonCount = closingMatch[1].length;
-                outputChannel.appendLine(`[Elastic Docs] Line ${lineNum}: Found closing with ${colonCount} colons`);
-                outputChannel.appendLine(`[Elastic Docs] Current stack: ${blockStack.map(b => `${b.name}(${b.openingColons})`).join(', ')}`);
-                
-                // Find the most recent unmatched block with matching colon count
-                // We search backwards through the stack to handle nested directives
-                let matched = false;
-                for (let i = blockStack.length - 1; i >= 0; i--) {
-                    const block = blockStack[i];
-                    outputChannel.appendLine(`[Elastic Docs] Checking block '${block.name}' with ${block.openingColons} colons, already closed: ${!!block.closing}`);
-                    if (block.openingColons === colonCount && !block.closing) {
-                        outputChannel.appendLine(`[Elastic Docs] MATCHED! Closing '${block.name}' with ${colonCount} colons`);
-                        block.closing = lineText;
-                        block.closingRange = new vscode.Range(lineNum, 0, lineNum, lineText.length);
-                        block.closingColons = colonCount;
-                        // Remove this block and all blocks after it from the stack
-                        blockStack.splice(i);
-                        matched = true;
-                        break;
-                    }
-                }
-                if (!matched) {
-                    outputChannel.appendLine(`[Elastic Docs] WARNING: No matching opening found for ${colonCount} colons at line ${lineNum}`);
-                }
-                outputChannel.appendLine(`[Elastic Docs] Stack after closing: ${blockStack.map(b => `${b.name}(${b.openingColons})`).join(', ')}`);
-                continue;
-            }
-            
-            // Check for parameters - add to the most recent unclosed block
-            if (blockStack.length > 0) {
-                const currentBlock = blockStack[blockStack.length - 1];
-                const paramMatch = lineText.match(/^:([a-zA-Z][a-zA-Z0-9_-]*):(?:\s+(.*))?$/);
-                if (paramMatch) {
-                    currentBlock.parameters.push({
-                        name: paramMatch[1],
-                        value: paramMatch[2],
-                        range: new vscode.Range(lineNum, 0, lineNum, lineText.length)
-                    });
-                } else {
-                    // Regular content line - add to the most recent block
-                    currentBlock.contentLines.push(lineNum);
-                }
-            }
-        }
+        // Validate section-level {applies_to} directives
+        const sectionAppliesTo = this.validateSectionAppliesToDirectives(model);
+        diagnostics.push(...sectionAppliesTo);
         
-        // Log any unclosed blocks
-        if (blockStack.length > 0) {
-            outputChannel.appendLine(`[Elastic Docs] WARNING: Unclosed blocks remaining: ${blockStack.map(b => `${b.name}(${b.openingColons}) at line ${b.openingRange.start.line}`).join(', ')}`);
+        for (const diagnostic of diagnostics) {
+            diagnostic.source = DIRECTIVE_DIAGNOSTIC_SOURCE;
         }
         
-        outputChannel.appendLine(`[Elastic Docs] Parsing complete. Found ${blocks.length} total blocks`);
-        blocks.forEach((block, i) => {
-            outputChannel.appendLine(`[Elastic Docs] Block ${i}: ${block.name}(${block.openingColons}) - Closed: ${!!block.closing}`);
-        });
-        
-        return blocks;
+        return diagnostics;
     }
     
-    private validateDirectiveBlock(block: DirectiveBlock, document: vscode.TextDocument): vscode.Diagnostic[] {
+    private async validateDirectiveBlock(block: DirectiveBlock, document: vscode.TextDocument, rootUri?: vscode.Uri): Promise<vscode.Diagnostic[]> {
         const diagnostics: vscode.Diagnostic[] = [];
         
-        outputChannel.appendLine(`[Elastic Docs] Validating block '${block.name}' (${block.openingColons} colons) - Has closing: ${!!block.closing}`);
-        
         // 1. Check for missing closing directive
         if (!block.closing) {
             outputChannel.appendLine(`[Elastic Docs] ERROR: Missing closing directive for '${block.name}' at line ${block.openingRange.start.line}`);
-            diagnostics.push(new vscode.Diagnostic(
+            const diagnostic = new vscode.Diagnostic(
                 block.openingRange,
                 `Missing closing directive. Expected ${':'.repeat(block.openingColons)}`,
                 vscode.DiagnosticSeverity.Error
-            ));
+            );
+            diagnostic.code = 'missing_closing';
+            diagnostics.push(diagnostic);
             return diagnostics; // Don't continue validation if no closing
         }
         
         // 2. Check for mismatched colon counts
         if (block.openingColons !== block.closingColons) {
-            diagnostics.push(new vscode.Diagnostic(
+            const diagnostic = new vscode.Diagnostic(
                 block.closingRange!,
                 `Mismatched colon count. Opening has ${block.openingColons} colons, closing has ${block.closingColons}`,
                 vscode.DiagnosticSeverity.Error
-            ));
+            );
+            diagnostic.code = 'mismatched_colons';
+            diagnostics.push(diagnostic);
         }
         
         // 3. Check if directive name is valid
         const directive = DIRECTIVES.find(d => d.name === block.name);
         if (!directive) {
-            diagnostics.push(new vscode.Diagnostic(
+            const suggestions = findClosestMatches(block.name, DIRECTIVES.map(d => d.name));
+            const diagnostic = new vscode.Diagnostic(
                 block.nameRange,
-                `Unknown directive '${block.name}'`,
+                `Unknown directive '${block.name}'${formatDidYouMean(suggestions)}`,
                 vscode.DiagnosticSeverity.Warning
-            ));
+            );
+            diagnostic.code = 'unknown_directive';
+            diagnostics.push(diagnostic);
         }
         
         // 4. Check required arguments
@@ -250,11 +121,14 @@ export class DirectiveDiagnosticProvider {
         // 5. Validate parameters
         for (const param of block.parameters) {
             if (directive && !directive.parameters.includes(param.name)) {
-                diagnostics.push(new vscode.Diagnostic(
+                const suggestions = findClosestMatches(param.name, directive.parameters.filter(name => !block.parameters.some(p => p.name === name)));
+                const diagnostic = new vscode.Diagnostic(
                     param.range,
-                    `Unknown parameter '${param.name}' for directive '${block.name}'`,
+                    `Unknown parameter '${param.name}' for directive '${block.name}'${formatDidYouMean(suggestions, s => `':${s}:'`)}`,
                     vscode.DiagnosticSeverity.Warning
-                ));
+                );
+                diagnostic.code = 'unknown_parameter';
+                diagnostics.push(diagnostic);
             }
         }
         
@@ -285,17 +159,21 @@ export class DirectiveDiagnosticProvider {
         // 7. Check for malformed opening (missing braces)
         if (block.isMalformed) {
             if (block.missingClosingBrace) {
-                diagnostics.push(new vscode.Diagnostic(
+                const diagnostic = new vscode.Diagnostic(
                     block.openingRange,
                     'Malformed directive opening. Missing closing brace }',
                     vscode.DiagnosticSeverity.Error
-                ));
+                );
+                diagnostic.code = 'missing_closing_brace';
+                diagnostics.push(diagnostic);
             } else {
-                diagnostics.push(new vscode.Diagnostic(
+                const diagnostic = new vscode.Diagnostic(
                     block.openingRange,
                     'Malformed directive opening. Expected ::::{name} format with braces',
                     vscode.DiagnosticSeverity.Error
-                ));
+                );
+                diagnostic.code = 'missing_braces';
+                diagnostics.push(diagnostic);
             }
         }
 
@@ -305,11 +183,13 @@ export class DirectiveDiagnosticProvider {
             const urlValue = urlParam?.value?.trim();
 
             if (!urlParam || !urlValue) {
-                diagnostics.push(new vscode.Diagnostic(
+                const diagnostic = new vscode.Diagnostic(
                     block.openingRange,
                     "Directive 'agent-skill' requires a ':url:' parameter with an absolute GitHub URL",
                     vscode.DiagnosticSeverity.Error
-                ));
+                );
+                diagnostic.code = 'missing_url';
+                diagnostics.push(diagnostic);
             } else {
                 if (!this.isAbsoluteUrl(urlValue)) {
                     diagnostics.push(new vscode.Diagnostic(
@@ -326,10 +206,60 @@ export class DirectiveDiagnosticProvider {
                 }
             }
         }
+
+        // 9. Validate include and csv-include target paths
+        if (isIncludeDirective(block) && !block.argument!.includes('{{')) {
+            const errors = await this.validateIncludeTarget(block, document, rootUri);
+            diagnostics.push(...errors);
+        }
         
         return diagnostics;
     }
 
+    private async validateIncludeTarget(block: DirectiveBlock, document: vscode.TextDocument, rootUri?: vscode.Uri): Promise<vscode.Diagnostic[]> {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const argument = block.argument!.trim();
+        const argumentStart = document.lineAt(block.openingRange.start.line).text.indexOf(argument, block.argumentRange?.start.character);
+        const range = argumentStart === -1
+            ? block.openingRange
+            : new vscode.Range(block.openingRange.start.line, argumentStart, block.openingRange.start.line, argumentStart + argument.length);
+
+        const targetUri = await resolveIncludeTarget(argument, document.uri, rootUri);
+        if (!targetUri) {
+            diagnostics.push(new vscode.Diagnostic(
+                range,
+                `Included file '${argument}' does not exist`,
+                vscode.DiagnosticSeverity.Error
+            ));
+            return diagnostics;
+        }
+
+        // csv-include can point at any data file, but {include} only takes snippets
+        if (block.name !== 'include') {
+            return diagnostics;
+        }
+
+        if (!isSnippetPath(targetUri)) {
+            diagnostics.push(new vscode.Diagnostic(
+                range,
+                `Included file '${argument}' must be in a _snippets folder`,
+                vscode.DiagnosticSeverity.Error
+            ));
+        }
+
+        const cycle = await findIncludeCycle(document.uri, targetUri, rootUri);
+        if (cycle) {
+            const chain = cycle.map(uri => uri.path.split('/').pop()).join(' → ');
+            diagnostics.push(new vscode.Diagnostic(
+                range,
+                `Circular include: ${chain}`,
+                vscode.DiagnosticSeverity.Error
+            ));
+        }
+
+        return diagnostics;
+    }
+
     private isAbsoluteUrl(value: string): boolean {
         try {
             const parsed = new URL(value);
@@ -350,25 +280,95 @@ export class DirectiveDiagnosticProvider {
     /**
      * Validate inline {applies_to}`...` roles
      */
-    private validateInlineAppliesToRoles(document: vscode.TextDocument): vscode.Diagnostic[] {
+    private validateInlineAppliesToRoles(model: ParsedDocument): vscode.Diagnostic[] {
         const diagnostics: vscode.Diagnostic[] = [];
-        const inlinePattern = /\{applies_to\}`([^`]+)`/g;
 
-        for (let lineNum = 0; lineNum < document.lineCount; lineNum++) {
-            const line = document.lineAt(lineNum);
-            let match;
+        for (const role of model.roles) {
+            if (role.name !== 'applies_to') {
+                continue;
+            }
 
-            while ((match = inlinePattern.exec(line.text)) !== null) {
-                const content = match[1];
-                const contentStart = match.index + '{applies_to}`'.length;
-                const contentRange = new vscode.Range(
-                    lineNum, contentStart,
-                    lineNum, contentStart + content.length
-                );
+            // Validate the applies_to content
+            const errors = this.validateAppliesToContent(role.content, role.contentRange);
+            diagnostics.push(...errors);
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Roles in code blocks are syntax samples, not live markup
+     */
+    private isInCodeFence(model: ParsedDocument, line: number): boolean {
+        return model.codeFences.some(fence =>
+            fence.openingLine <= line && line <= (fence.closingLine ?? model.lines.length - 1));
+    }
+
+    /**
+     * Validate inline {icon}`...` roles against the icons docs-builder ships
+     */
+    private validateIconRoles(model: ParsedDocument): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const role of model.roles) {
+            const icon = role.content.trim();
+            if (role.name !== 'icon' || ICONS.includes(icon) || this.isInCodeFence(model, role.range.start.line)) {
+                continue;
+            }
+
+            const suggestions = findClosestMatches(icon, ICONS);
+            const diagnostic = new vscode.Diagnostic(
+                role.contentRange,
+                `Unknown icon '${icon}'${formatDidYouMean(suggestions)}`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.code = 'unknown_icon';
+            diagnostics.push(diagnostic);
+        }
+
+        return diagnostics;
+    }
 
-                // Validate the applies_to content
-                const errors = this.validateAppliesToContent(content, contentRange);
-                diagnostics.push(...errors);
+    /**
+     * Validate inline {kbd}`...` roles. Keys are joined with '+', and a key can list
+     * platform alternatives with '|' (for example 'ctrl|cmd + c'). Each key is either
+     * a named key or a single character.
+     */
+    private validateKeyboardRoles(model: ParsedDocument): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const role of model.roles) {
+            if (role.name !== 'kbd' || this.isInCodeFence(model, role.range.start.line)) {
+                continue;
+            }
+
+            const line = role.contentRange.start.line;
+            let offset = role.contentRange.start.character;
+            for (const part of role.content.split(/[+|]/)) {
+                const key = part.trim();
+                if (!key) {
+                    const diagnostic = new vscode.Diagnostic(
+                        role.contentRange,
+                        `Empty key in {kbd} role '${role.content}'. Use 'plus' for the + key and 'pipe' for the | key`,
+                        vscode.DiagnosticSeverity.Warning
+                    );
+                    diagnostic.code = 'empty_key';
+                    diagnostics.push(diagnostic);
+                    break;
+                }
+                if (key.length > 1 && !KEYBOARD_SHORTCUTS.includes(key.toLowerCase())) {
+                    const keyStart = offset + part.indexOf(key);
+                    const suggestions = findClosestMatches(key.toLowerCase(), KEYBOARD_SHORTCUTS);
+                    const diagnostic = new vscode.Diagnostic(
+                        new vscode.Range(line, keyStart, line, keyStart + key.length),
+                        `Unknown key '${key}' in {kbd} role${formatDidYouMean(suggestions)}`,
+                        vscode.DiagnosticSeverity.Warning
+                    );
+                    diagnostic.code = 'unknown_key';
+                    diagnostics.push(diagnostic);
+                }
+                // Skip the part and the separator after it
+                offset += part.length + 1;
             }
         }
 
@@ -378,26 +378,20 @@ export class DirectiveDiagnosticProvider {
     /**
      * Validate section-level ```{applies_to} directives
      */
-    private validateSectionAppliesToDirectives(document: vscode.TextDocument): vscode.Diagnostic[] {
+    private validateSectionAppliesToDirectives(model: ParsedDocument): vscode.Diagnostic[] {
         const diagnostics: vscode.Diagnostic[] = [];
-        const text = document.getText();
-        
-        // Match section-level applies_to blocks:
+
+        // Section-level applies_to blocks are code fences:
         // ```{applies_to} or ```yaml {applies_to}
-        const sectionPattern = /```(?:yaml\s+)?\{applies_to\}\s*\n([\s\S]*?)```/g;
-        let match;
+        for (const fence of model.codeFences) {
+            if (!isAppliesToFence(fence) || fence.closingLine === undefined) {
+                continue;
+            }
 
-        while ((match = sectionPattern.exec(text)) !== null) {
-            const content = match[1];
-            const contentStartOffset = match.index + match[0].indexOf(content);
-            const contentStartPos = document.positionAt(contentStartOffset);
-            
             // Parse each line of the YAML content
-            const lines = content.split('\n');
-            let currentLine = contentStartPos.line;
-
-            for (const line of lines) {
-                const trimmed = line.trim();
+            for (let currentLine = fence.openingLine + 1; currentLine < fence.closingLine; currentLine++) {
+                const lineText = model.lines[currentLine];
+                const trimmed = lineText.trim();
                 if (trimmed && !trimmed.startsWith('#')) {
                     // Parse key: value
                     const kvMatch = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*:\s*(.*)$/);
@@ -406,9 +400,8 @@ export class DirectiveDiagnosticProvider {
                         const value = kvMatch[2];
                         
                         // Find the actual position in the document
-                        const docLine = document.lineAt(currentLine);
-                        const keyStart = docLine.text.indexOf(key);
-                        const valueStart = docLine.text.indexOf(value, keyStart + key.length);
+                        const keyStart = lineText.indexOf(key);
+                        const valueStart = lineText.indexOf(value, keyStart + key.length);
                         
                         // Validate key
                         if (!APPLIES_TO_KEYS.includes(key)) {
@@ -434,7 +427,6 @@ export class DirectiveDiagnosticProvider {
                         }
                     }
                 }
-                currentLine++;
             }
         }
 
@@ -0,0 +1,67 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache, isAppliesToFence } from './documentModel';
+
+/**
+ * Folds directive blocks from their opening to their matching closing fence,
+ * the frontmatter, and section-level {applies_to} blocks.
+ * Markdown's built-in folding only knows about headings and code fences.
+ */
+export class DirectiveFoldingProvider implements vscode.FoldingRangeProvider {
+    provideFoldingRanges(
+        document: vscode.TextDocument,
+        _context: vscode.FoldingContext,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.FoldingRange[]> {
+        try {
+            const model = documentModelCache.get(document);
+            const ranges: vscode.FoldingRange[] = [];
+
+            if (model.frontmatter) {
+                ranges.push(new vscode.FoldingRange(model.frontmatter.startLine, model.frontmatter.endLine));
+            }
+
+            // Colons inside code blocks are sample content, not directives
+            const fencedLines = (line: number): boolean => model.codeFences.some(fence =>
+                fence.openingLine <= line && line <= (fence.closingLine ?? model.lines.length - 1));
+
+            for (const block of model.directives) {
+                const start = block.openingRange.start.line;
+                // Unclosed blocks have no end to fold to
+                if (block.closingRange && !fencedLines(start)) {
+                    ranges.push(new vscode.FoldingRange(start, block.closingRange.start.line));
+                }
+            }
+
+            for (const fence of model.codeFences) {
+                if (isAppliesToFence(fence) && fence.closingLine !== undefined) {
+                    ranges.push(new vscode.FoldingRange(fence.openingLine, fence.closingLine));
+                }
+            }
+
+            return ranges;
+        } catch (error) {
+            outputChannel.appendLine(`Error computing folding ranges: ${error}`);
+            return [];
+        }
+    }
+}
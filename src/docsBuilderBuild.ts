@@ -0,0 +1,307 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { exists } from './fileSystem';
+import { findDocsetForDocument } from './docsetNavigation';
+import { DocsBuilderUpdateChecker, DOCS_BUILDER_COMMAND } from './docsBuilderUpdateChecker';
+
+// Detect if we're running in a web environment
+const isWeb = typeof process === 'undefined' || typeof process.versions === 'undefined' || typeof process.versions.node === 'undefined';
+
+export interface DocsBuilderDiagnostic {
+    severity: 'error' | 'warning' | 'hint';
+    message: string;
+    /** Path as printed by docs-builder, usually relative to the docs folder */
+    file?: string;
+    /** 1-based, as printed */
+    line?: number;
+    column?: number;
+}
+
+// ::error file=docs/index.md,line=3,col=1::Message (GitHub Actions annotations)
+const ANNOTATION = /^::(error|warning|notice)\s+file=([^,:]+)(?:,line=(\d+))?(?:,(?:col|column)=(\d+))?[^:]*::(.*)$/;
+// docs/index.md:3:1: error: Message, or docs/index.md(3,1): warning: Message
+const SINGLE_LINE = /^(.+?\.(?:md|ya?ml))(?::(\d+)(?::(\d+))?|\((\d+)(?:,(\d+))?\)):?\s+(error|warning|hint)\s*:\s*(.*)$/i;
+// Error: Message, followed by a location line such as ┌─ docs/index.md:3:1
+const HEADER = /^\s*(error|warning|hint)\s*:\s*(.+)$/i;
+const LOCATION = /([^\s[\]()│┌─]+\.(?:md|ya?ml))(?::(\d+))?(?::(\d+))?/;
+// How many lines after a header its location may appear
+const LOCATION_LOOKAHEAD = 3;
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+function toSeverity(value: string): DocsBuilderDiagnostic['severity'] {
+    const lower = value.toLowerCase();
+    return lower === 'error' ? 'error' : lower === 'warning' ? 'warning' : 'hint';
+}
+
+/**
+ * Parse docs-builder output into diagnostics. Understands the console format
+ * (a severity header followed by a file location), single-line compiler-style
+ * messages, and GitHub Actions annotations.
+ */
+export function parseDocsBuilderOutput(output: string): DocsBuilderDiagnostic[] {
+    const lines = output.replace(ANSI_ESCAPE, '').split(/\r?\n/);
+    const diagnostics: DocsBuilderDiagnostic[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const text = lines[i].trim();
+
+        let match = text.match(ANNOTATION);
+        if (match) {
+            diagnostics.push({
+                severity: match[1] === 'notice' ? 'hint' : toSeverity(match[1]),
+                message: match[5].trim(),
+                file: match[2].trim(),
+                line: match[3] ? Number(match[3]) : undefined,
+                column: match[4] ? Number(match[4]) : undefined
+            });
+            continue;
+        }
+
+        match = text.match(SINGLE_LINE);
+        if (match) {
+            const line = match[2] ?? match[4];
+            const column = match[3] ?? match[5];
+            diagnostics.push({
+                severity: toSeverity(match[6]),
+                message: match[7].trim(),
+                file: match[1].trim(),
+                line: line ? Number(line) : undefined,
+                column: column ? Number(column) : undefined
+            });
+            continue;
+        }
+
+        match = text.match(HEADER);
+        if (match) {
+            const diagnostic: DocsBuilderDiagnostic = { severity: toSeverity(match[1]), message: match[2].trim() };
+            for (let j = i + 1; j < Math.min(lines.length, i + 1 + LOCATION_LOOKAHEAD); j++) {
+                if (HEADER.test(lines[j])) {
+                    break;
+                }
+                const location = lines[j].match(LOCATION);
+                if (location) {
+                    diagnostic.file = location[1];
+                    diagnostic.line = location[2] ? Number(location[2]) : undefined;
+                    diagnostic.column = location[3] ? Number(location[3]) : undefined;
+                    i = j;
+                    break;
+                }
+            }
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * The docset to build: the one containing the active page, otherwise the only
+ * docset in the workspace, otherwise one the user picks.
+ */
+export async function findTargetDocset(): Promise<vscode.Uri | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    if (editor && editor.document.uri.scheme === 'file') {
+        const docsetUri = await findDocsetForDocument(editor.document.uri);
+        if (docsetUri) {
+            return docsetUri;
+        }
+    }
+
+    const docsets = await vscode.workspace.findFiles('**/{docset,_docset}.yml', '**/node_modules/**');
+    if (docsets.length <= 1) {
+        return docsets[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        docsets.map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri })),
+        { placeHolder: 'Select the docset to build' }
+    );
+    return picked?.uri;
+}
+
+/**
+ * Runs `docs-builder` for a docset, streams its output to the output channel
+ * and turns the errors and warnings it reports into diagnostics.
+ */
+export class DocsBuilderBuildRunner {
+    private running = false;
+
+    constructor(private readonly diagnosticCollection: vscode.DiagnosticCollection) {}
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    async build(docsetUri: vscode.Uri): Promise<void> {
+        if (isWeb) {
+            vscode.window.showWarningMessage('Building with docs-builder is not available in the web version of VS Code.');
+            return;
+        }
+        if (this.running) {
+            vscode.window.showInformationMessage('A docs-builder build is already running.');
+            return;
+        }
+
+        const checker = DocsBuilderUpdateChecker.getInstance();
+        if (!(await checker.getInstalledVersion())) {
+            await checker.showNotInstalledNotification();
+            return;
+        }
+
+        const docsFolder = vscode.Uri.joinPath(docsetUri, '..');
+        const workingFolder = vscode.workspace.getWorkspaceFolder(docsetUri)?.uri ?? docsFolder;
+        const args = ['--path', docsFolder.fsPath];
+
+        this.running = true;
+        this.diagnosticCollection.clear();
+        outputChannel.show(true);
+        outputChannel.appendLine(`[docs-builder] Running ${DOCS_BUILDER_COMMAND} ${args.join(' ')} in ${workingFolder.fsPath}`);
+
+        try {
+            const { exitCode, output } = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Building ${vscode.workspace.asRelativePath(docsFolder)} with docs-builder`,
+                    cancellable: true
+                },
+                (_progress, token) => this.run(args, workingFolder.fsPath, token)
+            );
+
+            const diagnostics = parseDocsBuilderOutput(output);
+            await this.publish(diagnostics, [docsFolder, workingFolder]);
+
+            const errors = diagnostics.filter(d => d.severity === 'error').length;
+            const warnings = diagnostics.filter(d => d.severity === 'warning').length;
+            const summary = `docs-builder finished with ${errors} error${errors !== 1 ? 's' : ''} and ${warnings} warning${warnings !== 1 ? 's' : ''}.`;
+            outputChannel.appendLine(`[docs-builder] ${summary} Exit code: ${exitCode}`);
+
+            if (exitCode === null) {
+                vscode.window.showInformationMessage('docs-builder build cancelled.');
+            } else if (exitCode !== 0 || errors > 0) {
+                const showProblems = 'Show Problems';
+                const selection = await vscode.window.showErrorMessage(summary, showProblems);
+                if (selection === showProblems) {
+                    await vscode.commands.executeCommand('workbench.actions.view.problems');
+                }
+            } else {
+                vscode.window.showInformationMessage(summary);
+            }
+        } catch (err) {
+            outputChannel.appendLine(`[docs-builder] Build failed to start: ${err}`);
+            vscode.window.showErrorMessage(`Could not run docs-builder: ${err}`);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Spawn docs-builder and echo its output line by line.
+     * Resolves with a null exit code if the build was cancelled.
+     */
+    private run(args: string[], cwd: string, token: vscode.CancellationToken): Promise<{ exitCode: number | null; output: string }> {
+        return new Promise((resolve, reject) => {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const { spawn } = require('child_process');
+            const child = spawn(DOCS_BUILDER_COMMAND, args, { cwd });
+
+            let output = '';
+            let pending = '';
+            let cancelled = false;
+
+            const onData = (chunk: Buffer): void => {
+                const text = chunk.toString();
+                output += text;
+                const lines = (pending + text).split(/\r?\n/);
+                pending = lines.pop() ?? '';
+                for (const line of lines) {
+                    outputChannel.appendLine(line.replace(ANSI_ESCAPE, ''));
+                }
+            };
+
+            child.stdout.on('data', onData);
+            child.stderr.on('data', onData);
+            child.on('error', (err: Error) => reject(err));
+            child.on('close', (code: number | null) => {
+                if (pending) {
+                    outputChannel.appendLine(pending.replace(ANSI_ESCAPE, ''));
+                }
+                resolve({ exitCode: cancelled ? null : code, output });
+            });
+
+            token.onCancellationRequested(() => {
+                cancelled = true;
+                child.kill();
+            });
+        });
+    }
+
+    /**
+     * Map diagnostics to files. docs-builder prints paths relative to the docs folder
+     * or to the repository root, so both are tried.
+     */
+    private async publish(diagnostics: DocsBuilderDiagnostic[], baseUris: vscode.Uri[]): Promise<void> {
+        const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+
+        for (const diagnostic of diagnostics) {
+            if (!diagnostic.file) {
+                continue;
+            }
+
+            const candidates = diagnostic.file.startsWith('/') || /^[a-zA-Z]:[\\/]/.test(diagnostic.file)
+                ? [vscode.Uri.file(diagnostic.file)]
+                : baseUris.map(base => vscode.Uri.joinPath(base, diagnostic.file!));
+            let uri: vscode.Uri | undefined;
+            for (const candidate of candidates) {
+                if (await exists(candidate)) {
+                    uri = candidate;
+                    break;
+                }
+            }
+            if (!uri) {
+                outputChannel.appendLine(`[docs-builder] Could not find ${diagnostic.file} for: ${diagnostic.message}`);
+                continue;
+            }
+
+            const line = Math.max((diagnostic.line ?? 1) - 1, 0);
+            const column = Math.max((diagnostic.column ?? 1) - 1, 0);
+            const result = new vscode.Diagnostic(
+                new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER),
+                diagnostic.message,
+                diagnostic.severity === 'error' ? vscode.DiagnosticSeverity.Error
+                    : diagnostic.severity === 'warning' ? vscode.DiagnosticSeverity.Warning
+                    : vscode.DiagnosticSeverity.Hint
+            );
+            result.source = 'docs-builder';
+
+            const key = uri.toString();
+            if (!byFile.has(key)) {
+                byFile.set(key, { uri, diagnostics: [] });
+            }
+            byFile.get(key)!.diagnostics.push(result);
+        }
+
+        for (const { uri, diagnostics: fileDiagnostics } of byFile.values()) {
+            this.diagnosticCollection.set(uri, fileDiagnostics);
+        }
+    }
+}
@@ -0,0 +1,280 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { DocsBuilderUpdateChecker, DOCS_BUILDER_COMMAND } from './docsBuilderUpdateChecker';
+
+// Detect if we're running in a web environment
+const isWeb = typeof process === 'undefined' || typeof process.versions === 'undefined' || typeof process.versions.node === 'undefined';
+
+// docs-builder serve listens here unless it reports otherwise
+const DEFAULT_SERVE_URL = 'http://localhost:3000';
+
+// Give up waiting for the server to report it's listening after this long
+const START_TIMEOUT_MS = 120000;
+
+// Force-kill a server that hasn't exited this long after being asked to stop
+const STOP_TIMEOUT_MS = 5000;
+
+// ASP.NET Core startup log line, e.g. "Now listening on: http://localhost:3000"
+const LISTENING = /Now listening on:\s*(https?:\/\/\S+)/;
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+type ServerState = 'stopped' | 'starting' | 'running';
+
+interface ServeProcess {
+    kill(signal?: NodeJS.Signals): boolean;
+    on(event: 'close', listener: (code: number | null) => void): void;
+}
+
+/**
+ * Runs `docs-builder serve` for a docset as a managed background process
+ * and opens served pages in the Simple Browser.
+ */
+export class DocsBuilderServer implements vscode.Disposable {
+    private readonly statusBarItem: vscode.StatusBarItem;
+    private state: ServerState = 'stopped';
+    private process?: ServeProcess;
+    private docsFolder?: vscode.Uri;
+    private baseUrl = DEFAULT_SERVE_URL;
+    private stopping = false;
+
+    constructor() {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+        this.statusBarItem.command = 'elastic-docs-v3.serveDocs';
+    }
+
+    /**
+     * Serve the docset (restarting the server if it serves another one),
+     * then open the page for the given document
+     */
+    async serveAndOpen(docsetUri: vscode.Uri, documentUri?: vscode.Uri): Promise<void> {
+        const docsFolder = vscode.Uri.joinPath(docsetUri, '..');
+        if (this.state !== 'stopped' && this.docsFolder?.toString() !== docsFolder.toString()) {
+            await this.stop();
+        }
+        if (this.state === 'stopped' && !(await this.start(docsFolder))) {
+            return;
+        }
+        await this.open(documentUri);
+    }
+
+    async restart(): Promise<void> {
+        const docsFolder = this.docsFolder;
+        if (!docsFolder) {
+            vscode.window.showInformationMessage('The docs-builder server is not running.');
+            return;
+        }
+        await this.stop();
+        await this.start(docsFolder);
+    }
+
+    async stop(): Promise<void> {
+        const child = this.process;
+        if (!child) {
+            return;
+        }
+
+        this.stopping = true;
+        await new Promise<void>(resolve => {
+            const timeout = setTimeout(() => {
+                outputChannel.appendLine(`[docs-builder serve] Still running after ${STOP_TIMEOUT_MS / 1000}s, killing it`);
+                child.kill('SIGKILL');
+                resolve();
+            }, STOP_TIMEOUT_MS);
+            child.on('close', () => {
+                clearTimeout(timeout);
+                resolve();
+            });
+            child.kill();
+        });
+
+        // Don't wait for the close event of a force-killed process
+        if (this.process === child) {
+            this.process = undefined;
+            this.setState('stopped');
+        }
+        this.stopping = false;
+    }
+
+    dispose(): void {
+        this.stopping = true;
+        this.process?.kill();
+        this.statusBarItem.dispose();
+    }
+
+    /**
+     * Open the served page for a document, or the docset's landing page
+     */
+    async open(documentUri?: vscode.Uri): Promise<void> {
+        if (this.state !== 'running') {
+            return;
+        }
+        const url = this.getPageUrl(documentUri);
+        outputChannel.appendLine(`[docs-builder serve] Opening ${url}`);
+        await vscode.commands.executeCommand('simpleBrowser.api.open', vscode.Uri.parse(url), {
+            viewColumn: vscode.ViewColumn.Beside,
+            preserveFocus: true
+        });
+    }
+
+    /**
+     * URL docs-builder serves a page at: its path in the docs folder without '.md',
+     * with index pages served at their folder
+     */
+    private getPageUrl(documentUri?: vscode.Uri): string {
+        const folderPath = `${this.docsFolder?.path ?? ''}/`;
+        if (!documentUri || !documentUri.path.startsWith(folderPath) || !documentUri.path.endsWith('.md')) {
+            return this.baseUrl;
+        }
+
+        const page = documentUri.path
+            .substring(folderPath.length)
+            .replace(/\.md$/, '')
+            .replace(/(^|\/)index$/, '');
+        return `${this.baseUrl.replace(/\/$/, '')}/${page}`;
+    }
+
+    /**
+     * Start the server and wait until it's listening. Returns false if it couldn't start.
+     */
+    private async start(docsFolder: vscode.Uri): Promise<boolean> {
+        if (isWeb) {
+            vscode.window.showWarningMessage('docs-builder serve is not available in the web version of VS Code.');
+            return false;
+        }
+
+        const checker = DocsBuilderUpdateChecker.getInstance();
+        if (!(await checker.getInstalledVersion())) {
+            await checker.showNotInstalledNotification();
+            return false;
+        }
+
+        const workingFolder = vscode.workspace.getWorkspaceFolder(docsFolder)?.uri ?? docsFolder;
+        const args = ['serve', '--path', docsFolder.fsPath];
+
+        this.docsFolder = docsFolder;
+        this.baseUrl = DEFAULT_SERVE_URL;
+        this.stopping = false;
+        this.setState('starting');
+        outputChannel.appendLine(`[docs-builder serve] Running ${DOCS_BUILDER_COMMAND} ${args.join(' ')} in ${workingFolder.fsPath}`);
+
+        return vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Starting docs-builder serve...', cancellable: true },
+            (_progress, token) => new Promise<boolean>(resolve => {
+                let settled = false;
+                const settle = (started: boolean): void => {
+                    if (!settled) {
+                        settled = true;
+                        clearTimeout(timeout);
+                        resolve(started);
+                    }
+                };
+
+                const timeout = setTimeout(() => {
+                    if (this.process !== child) {
+                        settle(false);
+                        return;
+                    }
+                    outputChannel.appendLine(`[docs-builder serve] No "Now listening" line after ${START_TIMEOUT_MS / 1000}s, assuming ${this.baseUrl}`);
+                    this.setState('running');
+                    settle(true);
+                }, START_TIMEOUT_MS);
+
+                // eslint-disable-next-line @typescript-eslint/no-var-requires
+                const { spawn } = require('child_process');
+                const child = spawn(DOCS_BUILDER_COMMAND, args, { cwd: workingFolder.fsPath });
+                this.process = child;
+
+                let pending = '';
+                const onData = (chunk: Buffer): void => {
+                    const lines = (pending + chunk.toString()).split(/\r?\n/);
+                    pending = lines.pop() ?? '';
+                    for (const rawLine of lines) {
+                        const line = rawLine.replace(ANSI_ESCAPE, '');
+                        outputChannel.appendLine(line);
+
+                        const listening = line.match(LISTENING);
+                        if (listening && this.state === 'starting') {
+                            this.baseUrl = listening[1].replace(/\/$/, '');
+                            this.setState('running');
+                            settle(true);
+                        }
+                    }
+                };
+
+                child.stdout.on('data', onData);
+                child.stderr.on('data', onData);
+                child.on('error', (err: Error) => {
+                    outputChannel.appendLine(`[docs-builder serve] Failed to start: ${err}`);
+                    vscode.window.showErrorMessage(`Could not run docs-builder serve: ${err.message}`);
+                });
+                child.on('close', (code: number | null) => {
+                    outputChannel.appendLine(`[docs-builder serve] Exited with code ${code}`);
+                    settle(false);
+                    // A force-killed server can exit after a new one was started
+                    if (this.process !== child) {
+                        return;
+                    }
+                    const unexpected = !this.stopping;
+                    this.process = undefined;
+                    this.setState('stopped');
+
+                    if (unexpected && code !== 0) {
+                        const showOutput = 'Show Output';
+                        vscode.window.showWarningMessage(`docs-builder serve stopped unexpectedly (exit code ${code}).`, showOutput)
+                            .then(selection => {
+                                if (selection === showOutput) {
+                                    outputChannel.show(true);
+                                }
+                            });
+                    }
+                });
+
+                token.onCancellationRequested(() => {
+                    this.stopping = true;
+                    child.kill();
+                });
+            })
+        );
+    }
+
+    private setState(state: ServerState): void {
+        this.state = state;
+        const docset = this.docsFolder ? vscode.workspace.asRelativePath(this.docsFolder) : '';
+
+        switch (state) {
+            case 'starting':
+                this.statusBarItem.text = '$(loading~spin) docs-builder';
+                this.statusBarItem.tooltip = `Starting docs-builder serve for ${docset}`;
+                this.statusBarItem.show();
+                break;
+            case 'running':
+                this.statusBarItem.text = '$(globe) docs-builder';
+                this.statusBarItem.tooltip = `Serving ${docset} at ${this.baseUrl}. Click to open the current page.`;
+                this.statusBarItem.show();
+                break;
+            case 'stopped':
+                this.statusBarItem.hide();
+                break;
+        }
+    }
+}
@@ -23,6 +23,9 @@ import { outputChannel } from './logger';
 // Detect if we're running in a web environment
 const isWeb = typeof process === 'undefined' || typeof process.versions === 'undefined' || typeof process.versions.node === 'undefined';
 
+// Name of the docs-builder executable, resolved through PATH
+export const DOCS_BUILDER_COMMAND = 'docs-builder';
+
 const DOCS_BUILDER_INSTALL_URL = 'https://www.elastic.co/docs/contribute-docs/locally';
 
 // Install commands per platform (from the official docs)
@@ -112,13 +115,13 @@ export class DocsBuilderUpdateChecker {
      * Parses the version from the last non-empty line of stdout.
      * Returns null if docs-builder is not installed or not in PATH.
      */
-    private async getInstalledVersion(): Promise<string | null> {
+    public async getInstalledVersion(): Promise<string | null> {
         return new Promise((resolve) => {
             try {
                 // eslint-disable-next-line @typescript-eslint/no-var-requires
                 const { execFile } = require('child_process');
 
-                execFile('docs-builder', ['--version'], { timeout: 15000 }, (error: Error | null, stdout: string, stderr: string) => {
+                execFile(DOCS_BUILDER_COMMAND, ['--version'], { timeout: 15000 }, (error: Error | null, stdout: string, stderr: string) => {
                     if (error) {
                         outputChannel.appendLine(`docs-builder update check: Failed to run docs-builder --version: ${error.message}`);
                         resolve(null);
@@ -261,7 +264,7 @@ export class DocsBuilderUpdateChecker {
      * Show a notification when docs-builder is not installed.
      * Offers to open the installation documentation.
      */
-    private async showNotInstalledNotification(): Promise<void> {
+    public async showNotInstalledNotification(): Promise<void> {
         const installAction = 'View Install Instructions';
 
         const selection = await vscode.window.showWarningMessage(
@@ -0,0 +1,356 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { readFile, exists } from './fileSystem';
+
+/**
+ * Navigation of a docset, as declared by the 'toc:' section of docset.yml
+ * and any nested toc.yml files it references.
+ */
+
+export type TocEntryKind = 'file' | 'hidden' | 'folder' | 'toc';
+
+export const DOCSET_FILE_NAMES = ['docset.yml', '_docset.yml'];
+export const TOC_FILE_NAMES = ['toc.yml', '_toc.yml'];
+
+export interface TocEntry {
+    kind: TocEntryKind;
+    /** Path as written in the toc file */
+    value: string;
+    /** The toc or docset file that declares this entry */
+    sourceUri: vscode.Uri;
+    /** Range of the path value within the declaring file */
+    valueRange: vscode.Range;
+    /** File or folder the entry points to. For 'toc' entries, the referenced folder. */
+    resolvedUri: vscode.Uri;
+    /** For 'toc' entries, the toc.yml that was loaded, if one was found */
+    tocFileUri?: vscode.Uri;
+    /** Whether the entry declared a 'children:' list */
+    hasChildren: boolean;
+    children: TocEntry[];
+}
+
+export interface DocsetNavigation {
+    docsetUri: vscode.Uri;
+    /** Folder containing docset.yml; '/'-prefixed links resolve against it */
+    rootUri: vscode.Uri;
+    entries: TocEntry[];
+    /** Every toc.yml file that was loaded while building the navigation */
+    tocFiles: vscode.Uri[];
+}
+
+export interface TocKey {
+    name: string;
+    range: vscode.Range;
+}
+
+/**
+ * A toc list item as written, before paths are resolved
+ */
+export interface RawTocEntry {
+    kind?: TocEntryKind;
+    value: string;
+    /** Line of the item's '-' */
+    itemLine: number;
+    line: number;
+    valueStart: number;
+    /** Every key declared on the item, in order */
+    keys: TocKey[];
+    hasChildren: boolean;
+    children: RawTocEntry[];
+}
+
+export const TOC_ENTRY_KINDS: TocEntryKind[] = ['file', 'hidden', 'folder', 'toc'];
+
+const TOC_SECTION_PATTERN = /^toc:\s*(#.*)?$/;
+const TOC_ITEM_PATTERN = /^(\s*)-\s*(.*)$/;
+const TOC_KEY_PATTERN = /^(\s*)([a-zA-Z_]+):\s*(.*)$/;
+
+/**
+ * Parse the entries of a 'toc:' section.
+ * Docset files nest the list under a top-level 'toc:' key, toc.yml files may too.
+ */
+export function parseTocEntries(content: string): RawTocEntry[] {
+    const lines = content.split(/\r?\n/);
+    const roots: RawTocEntry[] = [];
+    // Open items, with the column of their '-'
+    const stack: { indent: number; entry: RawTocEntry }[] = [];
+
+    const sectionStart = lines.findIndex(line => TOC_SECTION_PATTERN.test(line));
+    if (sectionStart === -1) {
+        return roots;
+    }
+
+    for (let i = sectionStart + 1; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) {
+            continue;
+        }
+
+        // A new top-level key ends the toc section
+        if (!/^\s/.test(line) && !line.startsWith('-')) {
+            break;
+        }
+
+        let keyText = line;
+        let keyIndent = line.length - line.trimStart().length;
+
+        const itemMatch = line.match(TOC_ITEM_PATTERN);
+        if (itemMatch) {
+            const indent = itemMatch[1].length;
+            while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+                stack.pop();
+            }
+
+            const entry: RawTocEntry = { value: '', itemLine: i, line: i, valueStart: 0, keys: [], hasChildren: false, children: [] };
+            const parent = stack[stack.length - 1];
+            (parent ? parent.entry.children : roots).push(entry);
+            stack.push({ indent, entry });
+
+            // Key on the same line as the dash
+            keyIndent = line.indexOf(itemMatch[2]);
+            keyText = ' '.repeat(keyIndent) + itemMatch[2];
+        }
+
+        const current = stack[stack.length - 1];
+        const keyMatch = keyText.match(TOC_KEY_PATTERN);
+        if (!current || !keyMatch || keyIndent <= current.indent) {
+            continue;
+        }
+
+        const [, , key, rawValue] = keyMatch;
+        current.entry.keys.push({ name: key, range: new vscode.Range(i, keyIndent, i, keyIndent + key.length) });
+        if (key === 'children') {
+            current.entry.hasChildren = true;
+            continue;
+        }
+
+        const value = stripYamlValue(rawValue);
+        if (!value || current.entry.kind || !TOC_ENTRY_KINDS.includes(key as TocEntryKind)) {
+            continue;
+        }
+
+        current.entry.kind = key as TocEntryKind;
+        current.entry.value = value;
+        current.entry.line = i;
+        current.entry.valueStart = line.indexOf(value, keyIndent + key.length + 1);
+    }
+
+    return roots;
+}
+
+function stripYamlValue(rawValue: string): string {
+    let value = rawValue.replace(/\s+#.*$/, '').trim();
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+        value = value.slice(1, -1);
+    }
+    return value;
+}
+
+/**
+ * Find toc.yml or _toc.yml in a folder
+ */
+export async function findTocFile(folderUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+    for (const name of TOC_FILE_NAMES) {
+        const candidate = vscode.Uri.joinPath(folderUri, name);
+        if (await exists(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Find the docset.yml that owns a document by walking up from its folder
+ */
+export async function findDocsetForDocument(documentUri: vscode.Uri): Promise<vscode.Uri | undefined> {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
+    let folder = vscode.Uri.joinPath(documentUri, '..');
+
+    for (;;) {
+        for (const name of DOCSET_FILE_NAMES) {
+            const candidate = vscode.Uri.joinPath(folder, name);
+            if (await exists(candidate)) {
+                return candidate;
+            }
+        }
+
+        const parent = vscode.Uri.joinPath(folder, '..');
+        if (parent.path === folder.path || (workspaceFolder && folder.path === workspaceFolder.uri.path)) {
+            return undefined;
+        }
+        folder = parent;
+    }
+}
+
+/**
+ * Resolve a path used in a page: relative paths against the page's folder,
+ * '/'-prefixed paths against the docset root (or the workspace folder if there's no docset)
+ */
+export function resolveDocsetPath(path: string, documentUri: vscode.Uri, rootUri?: vscode.Uri): vscode.Uri {
+    if (path.startsWith('/')) {
+        const root = rootUri ?? vscode.workspace.getWorkspaceFolder(documentUri)?.uri;
+        if (root) {
+            return vscode.Uri.joinPath(root, path);
+        }
+    }
+    return vscode.Uri.joinPath(documentUri, '..', path);
+}
+
+/**
+ * Folder that an entry's children are relative to:
+ * the folder itself for 'folder:' entries, the file's folder otherwise
+ */
+export function getChildBaseUri(kind: TocEntryKind, resolvedUri: vscode.Uri): vscode.Uri {
+    return kind === 'folder' ? resolvedUri : vscode.Uri.joinPath(resolvedUri, '..');
+}
+
+async function resolveEntries(
+    rawEntries: RawTocEntry[],
+    sourceUri: vscode.Uri,
+    baseUri: vscode.Uri,
+    navigation: DocsetNavigation,
+    visitedTocs: Set<string>
+): Promise<TocEntry[]> {
+    const entries: TocEntry[] = [];
+
+    for (const raw of rawEntries) {
+        if (!raw.kind) {
+            continue;
+        }
+
+        const resolvedUri = vscode.Uri.joinPath(baseUri, raw.value);
+        const entry: TocEntry = {
+            kind: raw.kind,
+            value: raw.value,
+            sourceUri,
+            valueRange: new vscode.Range(raw.line, raw.valueStart, raw.line, raw.valueStart + raw.value.length),
+            resolvedUri,
+            hasChildren: raw.hasChildren,
+            children: []
+        };
+
+        if (raw.kind === 'toc') {
+            // Nested toc.yml; its paths are relative to its own folder
+            const tocFileUri = await findTocFile(resolvedUri);
+            if (tocFileUri && !visitedTocs.has(tocFileUri.toString())) {
+                visitedTocs.add(tocFileUri.toString());
+                navigation.tocFiles.push(tocFileUri);
+                entry.tocFileUri = tocFileUri;
+                try {
+                    const content = await readFile(tocFileUri);
+                    entry.children = await resolveEntries(parseTocEntries(content), tocFileUri, resolvedUri, navigation, visitedTocs);
+                } catch (error) {
+                    outputChannel.appendLine(`[DocsetNavigation] Could not read ${tocFileUri.toString()}: ${error}`);
+                }
+            }
+        } else {
+            entry.children = await resolveEntries(raw.children, sourceUri, getChildBaseUri(raw.kind, resolvedUri), navigation, visitedTocs);
+        }
+
+        entries.push(entry);
+    }
+
+    return entries;
+}
+
+/**
+ * Build the navigation for a docset file
+ */
+export async function loadDocsetNavigation(docsetUri: vscode.Uri): Promise<DocsetNavigation> {
+    const rootUri = vscode.Uri.joinPath(docsetUri, '..');
+    const navigation: DocsetNavigation = { docsetUri, rootUri, entries: [], tocFiles: [] };
+
+    const content = await readFile(docsetUri);
+    navigation.entries = await resolveEntries(parseTocEntries(content), docsetUri, rootUri, navigation, new Set());
+
+    outputChannel.appendLine(`[DocsetNavigation] Loaded ${docsetUri.toString()} with ${navigation.tocFiles.length} nested toc files`);
+    return navigation;
+}
+
+/**
+ * Whether a file is reachable from the navigation, either listed directly
+ * or under a 'folder:' entry that doesn't list its children.
+ */
+export function isFileInNavigation(navigation: DocsetNavigation, fileUri: vscode.Uri): boolean {
+    const target = fileUri.toString();
+
+    const visit = (entries: TocEntry[]): boolean => {
+        for (const entry of entries) {
+            const entryUri = entry.resolvedUri.toString();
+            if ((entry.kind === 'file' || entry.kind === 'hidden') && entryUri === target) {
+                return true;
+            }
+            if (entry.kind === 'folder' && !entry.hasChildren && target.startsWith(`${entryUri}/`)) {
+                return true;
+            }
+            if (visit(entry.children)) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    return visit(navigation.entries);
+}
+
+/**
+ * Caches docset navigation per docset file.
+ * Cleared whenever a docset.yml or toc.yml is saved.
+ */
+class DocsetNavigationCache {
+    private navigations = new Map<string, Promise<DocsetNavigation>>();
+
+    get(docsetUri: vscode.Uri): Promise<DocsetNavigation> {
+        const key = docsetUri.toString();
+        let navigation = this.navigations.get(key);
+        if (!navigation) {
+            navigation = loadDocsetNavigation(docsetUri);
+            // Don't keep failed loads around
+            navigation.catch(() => this.navigations.delete(key));
+            this.navigations.set(key, navigation);
+        }
+        return navigation;
+    }
+
+    /**
+     * Navigation for the docset that owns a document, if there is one
+     */
+    async getForDocument(documentUri: vscode.Uri): Promise<DocsetNavigation | undefined> {
+        const docsetUri = await findDocsetForDocument(documentUri);
+        return docsetUri ? this.get(docsetUri) : undefined;
+    }
+
+    clear(): void {
+        this.navigations.clear();
+    }
+}
+
+export const docsetNavigationCache = new DocsetNavigationCache();
+
+/**
+ * Whether a file name is a docset or toc file that affects navigation
+ */
+export function isNavigationFile(fileName: string): boolean {
+    const name = fileName.split(/[\\/]/).pop() ?? '';
+    return DOCSET_FILE_NAMES.includes(name) || TOC_FILE_NAMES.includes(name);
+}
@@ -0,0 +1,226 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { findFilesInFolder } from './fileSystem';
+import { loadDocumentModel } from './documentModel';
+import { docsetNavigationCache, TocEntry, TocEntryKind } from './docsetNavigation';
+import { FrontmatterValidationProvider } from './frontmatterValidationProvider';
+
+export const NAVIGATION_VIEW_ID = 'elasticDocsNavigation';
+
+/**
+ * A node of the navigation tree. 'page' nodes are pages picked up from
+ * a 'folder:' entry that doesn't list its children.
+ */
+export interface NavigationNode {
+    kind: 'docset' | 'page' | TocEntryKind;
+    uri: vscode.Uri;
+    entry?: TocEntry;
+    parent?: NavigationNode;
+    /** Loaded on first expand */
+    children?: NavigationNode[];
+}
+
+/**
+ * Sidebar tree of each docset's navigation, in toc order.
+ * Pages show their navigation_title or title from frontmatter.
+ */
+export class DocsetNavigationTreeProvider implements vscode.TreeDataProvider<NavigationNode> {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<NavigationNode | undefined>();
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private roots?: Promise<NavigationNode[]>;
+    private titles = new Map<string, Promise<string>>();
+    private singleDocset = false;
+
+    constructor(private readonly frontmatterParser: FrontmatterValidationProvider) {}
+
+    /**
+     * Rebuild the tree, e.g. after a docset.yml or toc.yml was saved
+     */
+    refresh(): void {
+        this.roots = undefined;
+        this.titles.clear();
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    /**
+     * Re-render items without reloading the navigation, e.g. when diagnostics changed.
+     * Pass reloadTitles after a page was saved, since its frontmatter may have changed.
+     */
+    refreshPages(reloadTitles = false): void {
+        if (reloadTitles) {
+            this.titles.clear();
+        }
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    async getTreeItem(node: NavigationNode): Promise<vscode.TreeItem> {
+        const hasChildren = node.kind === 'docset' || node.kind === 'toc' || node.kind === 'folder' || !!node.entry?.children.length;
+        const collapsibleState = hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+
+        if (node.kind === 'docset' || node.kind === 'toc' || node.kind === 'folder') {
+            const label = node.kind === 'docset'
+                ? vscode.workspace.asRelativePath(node.uri)
+                : node.uri.path.split('/').pop() ?? node.uri.path;
+            const item = new vscode.TreeItem(label, collapsibleState);
+            item.iconPath = vscode.ThemeIcon.Folder;
+            item.tooltip = vscode.workspace.asRelativePath(node.uri);
+            return item;
+        }
+
+        const item = new vscode.TreeItem(await this.getPageTitle(node.uri), collapsibleState);
+        item.resourceUri = node.uri;
+        item.tooltip = vscode.workspace.asRelativePath(node.uri);
+        item.command = { command: 'vscode.open', title: 'Open page', arguments: [node.uri] };
+
+        const descriptions: string[] = [];
+        if (node.kind === 'hidden') {
+            descriptions.push('hidden');
+        }
+
+        const errorCount = vscode.languages.getDiagnostics(node.uri)
+            .filter(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error).length;
+        if (errorCount > 0) {
+            item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+            descriptions.push(`${errorCount} error${errorCount !== 1 ? 's' : ''}`);
+        }
+
+        item.description = descriptions.join(' · ');
+        return item;
+    }
+
+    async getChildren(node?: NavigationNode): Promise<NavigationNode[]> {
+        try {
+            if (!node) {
+                const roots = await this.getRoots();
+                // A single docset doesn't need its own level
+                return roots.length === 1 ? this.getChildren(roots[0]) : roots;
+            }
+
+            if (!node.children) {
+                node.children = await this.loadChildren(node);
+            }
+            return node.children;
+        } catch (error) {
+            outputChannel.appendLine(`[NavigationTree] Error loading navigation: ${error}`);
+            return [];
+        }
+    }
+
+    getParent(node: NavigationNode): NavigationNode | undefined {
+        // Top-level entries of a single docset are shown as roots
+        return this.singleDocset && node.parent?.kind === 'docset' ? undefined : node.parent;
+    }
+
+    /**
+     * Find the node for a page, loading the tree as needed
+     */
+    async findNode(uri: vscode.Uri): Promise<NavigationNode | undefined> {
+        const target = uri.toString();
+
+        const search = async (nodes: NavigationNode[]): Promise<NavigationNode | undefined> => {
+            for (const node of nodes) {
+                if (node.kind !== 'docset' && node.kind !== 'toc' && node.kind !== 'folder' && node.uri.toString() === target) {
+                    return node;
+                }
+                const found = await search(await this.getChildren(node));
+                if (found) {
+                    return found;
+                }
+            }
+            return undefined;
+        };
+
+        return search(await this.getRoots());
+    }
+
+    private getRoots(): Promise<NavigationNode[]> {
+        if (!this.roots) {
+            this.roots = Promise.resolve(vscode.workspace.findFiles('**/{docset,_docset}.yml', '**/node_modules/**')).then(docsets => {
+                this.singleDocset = docsets.length === 1;
+                return docsets
+                    .sort((a, b) => a.path.localeCompare(b.path))
+                    .map(uri => ({ kind: 'docset' as const, uri }));
+            });
+        }
+        return this.roots;
+    }
+
+    private async loadChildren(node: NavigationNode): Promise<NavigationNode[]> {
+        let entries: TocEntry[];
+        if (node.kind === 'docset') {
+            entries = (await docsetNavigationCache.get(node.uri)).entries;
+        } else if (node.kind === 'folder' && node.entry && !node.entry.hasChildren) {
+            return this.loadFolderPages(node);
+        } else {
+            entries = node.entry?.children ?? [];
+        }
+
+        return entries.map(entry => ({ kind: entry.kind, uri: entry.resolvedUri, entry, parent: node }));
+    }
+
+    /**
+     * Pages under a 'folder:' entry without children, as docs-builder picks them up
+     */
+    private async loadFolderPages(node: NavigationNode): Promise<NavigationNode[]> {
+        const folderPath = `${node.uri.path}/`;
+        const pages = await findFilesInFolder(node.uri, '**/*.md');
+
+        return pages
+            .filter(uri => !uri.path.substring(folderPath.length).split('/').some(segment => segment.startsWith('_')))
+            .sort((a, b) => {
+                // index.md leads its folder
+                const aIndex = a.path.endsWith('/index.md') ? 0 : 1;
+                const bIndex = b.path.endsWith('/index.md') ? 0 : 1;
+                return aIndex - bIndex || a.path.localeCompare(b.path);
+            })
+            .map(uri => ({ kind: 'page' as const, uri, parent: node }));
+    }
+
+    /**
+     * navigation_title or title from frontmatter, then the page's first heading, then its file name
+     */
+    private getPageTitle(uri: vscode.Uri): Promise<string> {
+        const key = uri.toString();
+        let title = this.titles.get(key);
+        if (!title) {
+            title = loadDocumentModel(uri).then(model => {
+                const fileName = uri.path.split('/').pop() ?? key;
+                if (!model) {
+                    return fileName;
+                }
+
+                const data = model.frontmatter ? this.frontmatterParser.parseFrontmatter(model.frontmatter.lines) : {};
+                for (const field of ['navigation_title', 'title']) {
+                    const value = data[field];
+                    if ((typeof value === 'string' || typeof value === 'number') && String(value).trim()) {
+                        return String(value).trim();
+                    }
+                }
+
+                return model.headings.find(heading => heading.level === 1)?.text ?? fileName;
+            });
+            this.titles.set(key, title);
+        }
+        return title;
+    }
+}
@@ -0,0 +1,630 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { performanceLogger } from './performanceLogger';
+import { parseSubstitution } from './mutations';
+import { readFile, exists } from './fileSystem';
+
+/**
+ * Shared parsed model of an Elastic Docs markdown document.
+ *
+ * Every line is scanned once into a LineInfo record. The structural pass
+ * (frontmatter, code fences, directive nesting, headings) then runs over
+ * those records without touching regexes again. On edits only the changed
+ * lines are re-scanned, so providers can ask for the model on every
+ * keystroke without re-parsing the whole page.
+ */
+
+export interface DirectiveParameter {
+    name: string;
+    value?: string;
+    range: vscode.Range;
+}
+
+export interface DirectiveBlock {
+    opening: string;
+    openingRange: vscode.Range;
+    name: string;
+    nameRange: vscode.Range;
+    argument?: string;
+    argumentRange?: vscode.Range;
+    closing?: string;
+    closingRange?: vscode.Range;
+    openingColons: number;
+    closingColons?: number;
+    parameters: DirectiveParameter[];
+    contentLines: number[];
+    isMalformed?: boolean;
+    missingClosingBrace?: boolean;
+    parent?: DirectiveBlock;
+    children: DirectiveBlock[];
+}
+
+export interface RoleOccurrence {
+    name: string;
+    content: string;
+    range: vscode.Range;
+    nameRange: vscode.Range;
+    contentRange: vscode.Range;
+}
+
+export interface SubstitutionOccurrence {
+    /** Raw text between the braces, e.g. "version.stack | M.M" */
+    content: string;
+    variableName: string;
+    mutations: string[];
+    /** Range of the full {{...}} expression */
+    range: vscode.Range;
+    /** Range of the text between the braces */
+    contentRange: vscode.Range;
+    /** Range of the variable name, without surrounding whitespace or mutations */
+    variableRange: vscode.Range;
+    /** Range of each mutation operator, in the same order as mutations */
+    mutationRanges: vscode.Range[];
+}
+
+export interface LinkOccurrence {
+    text: string;
+    /** Raw link destination, e.g. "../page.md#anchor" */
+    target: string;
+    isImage: boolean;
+    range: vscode.Range;
+    targetRange: vscode.Range;
+}
+
+export interface CodeFence {
+    fence: string;
+    info: string;
+    openingLine: number;
+    closingLine?: number;
+    range: vscode.Range;
+}
+
+export interface Heading {
+    level: number;
+    text: string;
+    anchor: string;
+    hasExplicitAnchor: boolean;
+    line: number;
+    range: vscode.Range;
+}
+
+export interface Frontmatter {
+    /** Range from the opening --- to the start of the closing --- line */
+    range: vscode.Range;
+    startLine: number;
+    endLine: number;
+    /** Lines between the --- markers */
+    lines: string[];
+}
+
+export interface ParsedDocument {
+    uri: vscode.Uri;
+    version: number;
+    lines: readonly string[];
+    frontmatter?: Frontmatter;
+    /** All directive blocks in document order */
+    directives: DirectiveBlock[];
+    /** Top-level directive blocks; nested blocks are reachable through children */
+    rootDirectives: DirectiveBlock[];
+    roles: RoleOccurrence[];
+    substitutions: SubstitutionOccurrence[];
+    /** Markdown links and images outside of code */
+    links: LinkOccurrence[];
+    codeFences: CodeFence[];
+    headings: Heading[];
+}
+
+type LineKind =
+    | 'directive-open'
+    | 'directive-open-missing-brace'
+    | 'directive-open-malformed'
+    | 'directive-close'
+    | 'parameter'
+    | 'frontmatter-delimiter'
+    | 'text';
+
+interface InlineMatch {
+    start: number;
+    end: number;
+    groups: string[];
+}
+
+interface LineInfo {
+    kind: LineKind;
+    groups: string[];
+    fence?: { char: string; length: number; info: string };
+    heading?: { level: number; text: string };
+    roles: InlineMatch[];
+    substitutions: InlineMatch[];
+    links: InlineMatch[];
+}
+
+const DIRECTIVE_OPEN = /^(:{3,})\{([a-zA-Z][a-zA-Z0-9_-]*)\}(?:\s+(.*))?$/;
+const DIRECTIVE_OPEN_MISSING_BRACE = /^(:{3,})\{([a-zA-Z][a-zA-Z0-9_-]*)(?:\s+(.*))?$/;
+const DIRECTIVE_OPEN_MALFORMED = /^(:{3,})([a-zA-Z][a-zA-Z0-9_-]*)(?:\s+(.*))?$/;
+const DIRECTIVE_CLOSE = /^(:+)\s*$/;
+const PARAMETER = /^:([a-zA-Z][a-zA-Z0-9_-]*):(?:\s+(.*))?$/;
+const FRONTMATTER_DELIMITER = /^---\s*$/;
+const CODE_FENCE = /^\s{0,3}(`{3,}|~{3,})\s*(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const EXPLICIT_ANCHOR = /\s*\[([a-zA-Z0-9_-]+)\]\s*$/;
+const ROLE = /\{([a-zA-Z][a-zA-Z0-9_-]*)\}`([^`]+)`/g;
+const SUBSTITUTION = /\{\{([^}]+)\}\}/g;
+const LINK = /(!?)\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Convert heading text into the anchor docs-builder generates for it
+ */
+export function slugifyHeading(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/`/g, '')
+        .replace(/[^\w\s-]/g, '')
+        .trim()
+        .replace(/\s+/g, '-');
+}
+
+function collectInline(pattern: RegExp, text: string): InlineMatch[] {
+    const matches: InlineMatch[] = [];
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+        matches.push({
+            start: match.index,
+            end: match.index + match[0].length,
+            groups: match.slice(1)
+        });
+    }
+    return matches;
+}
+
+function isInInlineCode(text: string, index: number): boolean {
+    let backticks = 0;
+    for (let i = 0; i < index; i++) {
+        if (text[i] === '`') {
+            backticks++;
+        }
+    }
+    return backticks % 2 === 1;
+}
+
+function scanLine(text: string): LineInfo {
+    const info: LineInfo = {
+        kind: 'text',
+        groups: [],
+        roles: text.includes('}`') ? collectInline(ROLE, text) : [],
+        substitutions: text.includes('{{') ? collectInline(SUBSTITUTION, text) : [],
+        links: text.includes('](') ? collectInline(LINK, text).filter(link => !isInInlineCode(text, link.start)) : []
+    };
+
+    if (text.startsWith(':')) {
+        let match = text.match(DIRECTIVE_OPEN);
+        if (match) {
+            info.kind = 'directive-open';
+        } else if ((match = text.match(DIRECTIVE_OPEN_MISSING_BRACE))) {
+            info.kind = 'directive-open-missing-brace';
+        } else if ((match = text.match(DIRECTIVE_OPEN_MALFORMED))) {
+            info.kind = 'directive-open-malformed';
+        } else if ((match = text.match(DIRECTIVE_CLOSE))) {
+            info.kind = 'directive-close';
+        } else if ((match = text.match(PARAMETER))) {
+            info.kind = 'parameter';
+        }
+        if (match) {
+            info.groups = match.slice(1);
+        }
+        return info;
+    }
+
+    if (FRONTMATTER_DELIMITER.test(text)) {
+        info.kind = 'frontmatter-delimiter';
+        return info;
+    }
+
+    const fenceMatch = text.match(CODE_FENCE);
+    if (fenceMatch) {
+        info.fence = { char: fenceMatch[1][0], length: fenceMatch[1].length, info: fenceMatch[2].trim() };
+        return info;
+    }
+
+    const headingMatch = text.match(HEADING);
+    if (headingMatch) {
+        info.heading = { level: headingMatch[1].length, text: headingMatch[2] };
+    }
+
+    return info;
+}
+
+/**
+ * Build the structural model from scanned lines
+ */
+function buildModel(uri: vscode.Uri, version: number, lines: string[], infos: LineInfo[]): ParsedDocument {
+    const model: ParsedDocument = {
+        uri,
+        version,
+        lines,
+        directives: [],
+        rootDirectives: [],
+        roles: [],
+        substitutions: [],
+        links: [],
+        codeFences: [],
+        headings: []
+    };
+
+    // Frontmatter must start on the very first line
+    let bodyStart = 0;
+    if (lines.length >= 2 && infos[0].kind === 'frontmatter-delimiter') {
+        for (let i = 1; i < lines.length; i++) {
+            if (infos[i].kind === 'frontmatter-delimiter') {
+                model.frontmatter = {
+                    range: new vscode.Range(0, 0, i, 0),
+                    startLine: 0,
+                    endLine: i,
+                    lines: lines.slice(1, i)
+                };
+                bodyStart = i + 1;
+                break;
+            }
+        }
+    }
+
+    const blockStack: DirectiveBlock[] = [];
+    let openFence: CodeFence | undefined;
+    let openFenceInfo: { char: string; length: number } | undefined;
+
+    for (let lineNum = 0; lineNum < lines.length; lineNum++) {
+        const lineText = lines[lineNum];
+        const info = infos[lineNum];
+
+        for (const role of info.roles) {
+            const nameEnd = role.start + role.groups[0].length + 2;
+            const contentStart = nameEnd + 1;
+            model.roles.push({
+                name: role.groups[0],
+                content: role.groups[1],
+                range: new vscode.Range(lineNum, role.start, lineNum, role.end),
+                nameRange: new vscode.Range(lineNum, role.start, lineNum, nameEnd),
+                contentRange: new vscode.Range(lineNum, contentStart, lineNum, contentStart + role.groups[1].length)
+            });
+        }
+
+        for (const sub of info.substitutions) {
+            const content = sub.groups[0];
+            const { variableName, mutations } = parseSubstitution(content);
+            const variableStart = sub.start + 2 + (content.length - content.trimStart().length);
+            const mutationRanges: vscode.Range[] = [];
+            let partStart = sub.start + 2;
+            for (const part of content.split('|')) {
+                const operator = part.trim();
+                if (partStart > sub.start + 2 && operator) {
+                    const operatorStart = partStart + part.indexOf(operator);
+                    mutationRanges.push(new vscode.Range(lineNum, operatorStart, lineNum, operatorStart + operator.length));
+                }
+                partStart += part.length + 1;
+            }
+            model.substitutions.push({
+                content,
+                variableName,
+                mutations,
+                range: new vscode.Range(lineNum, sub.start, lineNum, sub.end),
+                contentRange: new vscode.Range(lineNum, sub.start + 2, lineNum, sub.end - 2),
+                variableRange: new vscode.Range(lineNum, variableStart, lineNum, variableStart + variableName.length),
+                mutationRanges
+            });
+        }
+
+        if (lineNum < bodyStart) {
+            continue;
+        }
+
+        // Code fences, then links and headings outside of them
+        if (info.fence) {
+            if (!openFence) {
+                openFence = {
+                    fence: lineText.trim().substring(0, info.fence.length),
+                    info: info.fence.info,
+                    openingLine: lineNum,
+                    range: new vscode.Range(lineNum, 0, lineNum, lineText.length)
+                };
+                openFenceInfo = info.fence;
+                model.codeFences.push(openFence);
+            } else if (openFenceInfo && info.fence.char === openFenceInfo.char && info.fence.length >= openFenceInfo.length && !info.fence.info) {
+                openFence.closingLine = lineNum;
+                openFence.range = new vscode.Range(openFence.openingLine, 0, lineNum, lineText.length);
+                openFence = undefined;
+                openFenceInfo = undefined;
+            }
+        } else if (!openFence) {
+            for (const link of info.links) {
+                const [bang, text, target] = link.groups;
+                const targetStart = lineText.indexOf(target, link.start + bang.length + text.length + 3);
+                model.links.push({
+                    text,
+                    target,
+                    isImage: bang === '!',
+                    range: new vscode.Range(lineNum, link.start, lineNum, link.end),
+                    targetRange: new vscode.Range(lineNum, targetStart, lineNum, targetStart + target.length)
+                });
+            }
+
+            if (info.heading) {
+                const explicit = info.heading.text.match(EXPLICIT_ANCHOR);
+                const text = explicit ? info.heading.text.substring(0, explicit.index).trim() : info.heading.text;
+                model.headings.push({
+                    level: info.heading.level,
+                    text,
+                    anchor: explicit ? explicit[1] : slugifyHeading(text),
+                    hasExplicitAnchor: !!explicit,
+                    line: lineNum,
+                    range: new vscode.Range(lineNum, 0, lineNum, lineText.length)
+                });
+            }
+        }
+
+        // Directive blocks
+        const groups = info.groups;
+        switch (info.kind) {
+            case 'directive-open':
+            case 'directive-open-missing-brace': {
+                const colons = groups[0].length;
+                const newBlock: DirectiveBlock = {
+                    opening: lineText,
+                    openingRange: new vscode.Range(lineNum, 0, lineNum, lineText.length),
+                    name: groups[1],
+                    nameRange: new vscode.Range(lineNum, colons + 1, lineNum, colons + 1 + groups[1].length),
+                    argument: groups[2],
+                    argumentRange: groups[2] ? new vscode.Range(lineNum, colons + groups[1].length + 2, lineNum, lineText.length) : undefined,
+                    openingColons: colons,
+                    parameters: [],
+                    contentLines: [],
+                    children: []
+                };
+                if (info.kind === 'directive-open-missing-brace') {
+                    newBlock.isMalformed = true;
+                    newBlock.missingClosingBrace = true;
+                }
+                pushBlock(model, blockStack, newBlock);
+                continue;
+            }
+            case 'directive-open-malformed': {
+                const colons = groups[0].length;
+                pushBlock(model, blockStack, {
+                    opening: lineText,
+                    openingRange: new vscode.Range(lineNum, 0, lineNum, lineText.length),
+                    name: groups[1],
+                    nameRange: new vscode.Range(lineNum, colons, lineNum, colons + groups[1].length),
+                    argument: groups[2],
+                    argumentRange: groups[2] ? new vscode.Range(lineNum, colons + groups[1].length + 1, lineNum, lineText.length) : undefined,
+                    openingColons: colons,
+                    parameters: [],
+                    contentLines: [],
+                    isMalformed: true,
+                    children: []
+                });
+                continue;
+            }
+            case 'directive-close':
+                if (blockStack.length > 0) {
+                    const colonCount = groups[0].length;
+                    // Find the most recent unmatched block with matching colon count
+                    for (let i = blockStack.length - 1; i >= 0; i--) {
+                        const block = blockStack[i];
+                        if (block.openingColons === colonCount && !block.closing) {
+                            block.closing = lineText;
+                            block.closingRange = new vscode.Range(lineNum, 0, lineNum, lineText.length);
+                            block.closingColons = colonCount;
+                            blockStack.splice(i);
+                            break;
+                        }
+                    }
+                    continue;
+                }
+                break;
+            case 'parameter':
+                if (blockStack.length > 0) {
+                    blockStack[blockStack.length - 1].parameters.push({
+                        name: groups[0],
+                        value: groups[1],
+                        range: new vscode.Range(lineNum, 0, lineNum, lineText.length)
+                    });
+                    continue;
+                }
+                break;
+        }
+
+        if (blockStack.length > 0) {
+            blockStack[blockStack.length - 1].contentLines.push(lineNum);
+        }
+    }
+
+    return model;
+}
+
+function pushBlock(model: ParsedDocument, blockStack: DirectiveBlock[], block: DirectiveBlock): void {
+    const parent = blockStack[blockStack.length - 1];
+    if (parent) {
+        block.parent = parent;
+        parent.children.push(block);
+    } else {
+        model.rootDirectives.push(block);
+    }
+    model.directives.push(block);
+    blockStack.push(block);
+}
+
+/**
+ * Section-level applies_to blocks: ```{applies_to} or ```yaml {applies_to}
+ */
+export function isAppliesToFence(fence: CodeFence): boolean {
+    return /^(?:yaml\s+)?\{applies_to\}/.test(fence.info);
+}
+
+/**
+ * Find the innermost directive block containing the given line
+ */
+export function findDirectiveAt(model: ParsedDocument, line: number): DirectiveBlock | undefined {
+    let found: DirectiveBlock | undefined;
+    for (const block of model.directives) {
+        const end = block.closingRange ? block.closingRange.end.line : model.lines.length - 1;
+        if (block.openingRange.start.line <= line && line <= end) {
+            found = block;
+        }
+    }
+    return found;
+}
+
+/**
+ * Parse raw text that isn't open in an editor (e.g. when scanning the workspace).
+ * The result is not cached.
+ */
+export function parseDocumentText(uri: vscode.Uri, text: string): ParsedDocument {
+    const lines = text.split(/\r?\n/);
+    return buildModel(uri, -1, lines, lines.map(scanLine));
+}
+
+interface CacheEntry {
+    version: number;
+    lines: string[];
+    infos: LineInfo[];
+    model: ParsedDocument;
+}
+
+/**
+ * Per-document cache of parsed models, keyed by document URI and version
+ */
+class DocumentModelCache {
+    private entries: Map<string, CacheEntry> = new Map();
+
+    /**
+     * Get the model for a document, parsing it only if the cached version is stale
+     */
+    get(document: vscode.TextDocument): ParsedDocument {
+        const key = document.uri.toString();
+        const entry = this.entries.get(key);
+        if (entry && entry.version === document.version) {
+            return entry.model;
+        }
+
+        return performanceLogger.measureSync(
+            'DocumentModel.parse',
+            () => {
+                const lines: string[] = [];
+                for (let i = 0; i < document.lineCount; i++) {
+                    lines.push(document.lineAt(i).text);
+                }
+                const infos = lines.map(scanLine);
+                const model = buildModel(document.uri, document.version, lines, infos);
+                this.entries.set(key, { version: document.version, lines, infos, model });
+                return model;
+            },
+            { fileName: document.fileName, lineCount: document.lineCount }
+        );
+    }
+
+    /**
+     * Apply content changes to a cached model, re-scanning only the changed lines.
+     * Falls back to a full parse on the next get() if the changes can't be applied.
+     */
+    update(event: vscode.TextDocumentChangeEvent): void {
+        const document = event.document;
+        const key = document.uri.toString();
+        const entry = this.entries.get(key);
+        if (!entry || event.contentChanges.length === 0 || entry.version === document.version) {
+            return;
+        }
+
+        // The changes are relative to the previous version; if we missed an event they can't be replayed
+        if (entry.version !== document.version - 1) {
+            outputChannel.appendLine(`[DocumentModel] Cached version ${entry.version} doesn't precede ${document.version}, will re-parse`);
+            this.entries.delete(key);
+            return;
+        }
+
+        performanceLogger.measureSync(
+            'DocumentModel.update',
+            () => {
+                try {
+                    const { lines, infos } = entry;
+                    for (const change of event.contentChanges) {
+                        const { start, end } = change.range;
+                        if (end.line >= lines.length) {
+                            throw new Error(`change ends at line ${end.line}, model has ${lines.length} lines`);
+                        }
+                        const prefix = lines[start.line].substring(0, start.character);
+                        const suffix = lines[end.line].substring(end.character);
+                        const newLines = change.text.split(/\r?\n/);
+                        newLines[0] = prefix + newLines[0];
+                        newLines[newLines.length - 1] += suffix;
+
+                        lines.splice(start.line, end.line - start.line + 1, ...newLines);
+                        infos.splice(start.line, end.line - start.line + 1, ...newLines.map(scanLine));
+                    }
+
+                    if (lines.length !== document.lineCount) {
+                        throw new Error(`line count mismatch (${lines.length} vs ${document.lineCount})`);
+                    }
+
+                    entry.version = document.version;
+                    entry.model = buildModel(document.uri, document.version, lines, infos);
+                } catch (err) {
+                    outputChannel.appendLine(`[DocumentModel] Incremental update failed, will re-parse: ${err}`);
+                    this.entries.delete(key);
+                }
+            },
+            { fileName: document.fileName, changeCount: event.contentChanges.length }
+        );
+    }
+
+    delete(uri: vscode.Uri): boolean {
+        return this.entries.delete(uri.toString());
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+// Export a singleton cache instance
+export const documentModelCache = new DocumentModelCache();
+
+/**
+ * Model for a page that may or may not be open, or null if it doesn't exist.
+ * Open documents are preferred so unsaved edits are taken into account.
+ */
+export async function loadDocumentModel(uri: vscode.Uri): Promise<ParsedDocument | null> {
+    const open = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+    if (open) {
+        return documentModelCache.get(open);
+    }
+
+    if (!(await exists(uri))) {
+        return null;
+    }
+
+    try {
+        return parseDocumentText(uri, await readFile(uri));
+    } catch (error) {
+        outputChannel.appendLine(`[DocumentModel] Could not read ${uri.toString()}: ${error}`);
+        return null;
+    }
+}
@@ -0,0 +1,171 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache, DirectiveBlock, Heading, ParsedDocument } from './documentModel';
+
+const TOP_LEVEL_KEY = /^([A-Za-z_][A-Za-z0-9_-]*)\s*:\s*(.*)$/;
+
+/**
+ * An open heading or directive while the outline is built, and the last line it may extend to
+ */
+interface OpenSymbol {
+    symbol: vscode.DocumentSymbol;
+    heading?: Heading;
+    limit: number;
+}
+
+/**
+ * Outline of a page: the frontmatter, then headings with the directives under them
+ * nested as they are in the page (tab-set > tab-item, stepper > step, and so on).
+ */
+export class DocumentOutlineProvider implements vscode.DocumentSymbolProvider {
+    provideDocumentSymbols(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.DocumentSymbol[]> {
+        try {
+            return this.buildOutline(documentModelCache.get(document));
+        } catch (error) {
+            outputChannel.appendLine(`Error building document outline: ${error}`);
+            return [];
+        }
+    }
+
+    private buildOutline(model: ParsedDocument): vscode.DocumentSymbol[] {
+        const lastLine = model.lines.length - 1;
+        const roots: vscode.DocumentSymbol[] = [];
+        if (model.frontmatter) {
+            roots.push(this.createFrontmatterSymbol(model));
+        }
+
+        const inCodeFence = (line: number): boolean => model.codeFences.some(fence =>
+            fence.openingLine <= line && line <= (fence.closingLine ?? lastLine));
+        const events = [
+            ...model.headings.map(heading => ({ line: heading.line, heading, block: undefined })),
+            ...model.directives
+                .filter(block => !inCodeFence(block.openingRange.start.line))
+                .map(block => ({ line: block.openingRange.start.line, heading: undefined, block }))
+        ].sort((a, b) => a.line - b.line);
+
+        const stack: OpenSymbol[] = [];
+        const close = (open: OpenSymbol, endLine: number): void => {
+            open.symbol.range = new vscode.Range(open.symbol.range.start, new vscode.Position(endLine, model.lines[endLine].length));
+        };
+        const add = (open: OpenSymbol): void => {
+            const parent = stack[stack.length - 1];
+            (parent ? parent.symbol.children : roots).push(open.symbol);
+            stack.push(open);
+        };
+
+        for (const event of events) {
+            // Close everything that ends before this line
+            while (stack.length > 0 && stack[stack.length - 1].limit < event.line) {
+                const open = stack.pop()!;
+                if (open.heading) {
+                    close(open, open.limit);
+                }
+            }
+
+            const limit = stack.length > 0 ? stack[stack.length - 1].limit : lastLine;
+            if (event.heading) {
+                // A heading closes earlier headings of the same or a deeper level
+                while (stack.length > 0 && stack[stack.length - 1].heading && stack[stack.length - 1].heading!.level >= event.heading.level) {
+                    close(stack.pop()!, Math.max(event.line - 1, 0));
+                }
+                add({ symbol: this.createHeadingSymbol(event.heading), heading: event.heading, limit: stack.length > 0 ? stack[stack.length - 1].limit : lastLine });
+            } else if (event.block) {
+                const end = event.block.closingRange?.end.line ?? limit;
+                add({ symbol: this.createDirectiveSymbol(event.block, model, end), limit: end });
+            }
+        }
+
+        while (stack.length > 0) {
+            const open = stack.pop()!;
+            if (open.heading) {
+                close(open, open.limit);
+            }
+        }
+
+        return roots;
+    }
+
+    private createFrontmatterSymbol(model: ParsedDocument): vscode.DocumentSymbol {
+        const frontmatter = model.frontmatter!;
+        const title = frontmatter.lines
+            .map(line => line.match(TOP_LEVEL_KEY))
+            .find(match => match?.[1] === 'title')?.[2]
+            .replace(/^["']|["']$/g, '');
+        const symbol = new vscode.DocumentSymbol(
+            'Frontmatter',
+            title ?? '',
+            vscode.SymbolKind.Namespace,
+            new vscode.Range(frontmatter.startLine, 0, frontmatter.endLine, model.lines[frontmatter.endLine].length),
+            new vscode.Range(frontmatter.startLine, 0, frontmatter.startLine, model.lines[frontmatter.startLine].length)
+        );
+
+        // One child per top-level key, spanning its nested lines
+        frontmatter.lines.forEach((line, index) => {
+            const match = line.match(TOP_LEVEL_KEY);
+            if (!match) {
+                return;
+            }
+            const keyLine = frontmatter.startLine + 1 + index;
+            let endLine = keyLine;
+            while (endLine + 1 < frontmatter.endLine && /^(\s|-|$)/.test(model.lines[endLine + 1])) {
+                endLine++;
+            }
+            symbol.children.push(new vscode.DocumentSymbol(
+                match[1],
+                match[2].trim(),
+                vscode.SymbolKind.Property,
+                new vscode.Range(keyLine, 0, endLine, model.lines[endLine].length),
+                new vscode.Range(keyLine, 0, keyLine, match[1].length)
+            ));
+        });
+
+        return symbol;
+    }
+
+    private createHeadingSymbol(heading: Heading): vscode.DocumentSymbol {
+        return new vscode.DocumentSymbol(
+            heading.text || '#'.repeat(heading.level),
+            '',
+            vscode.SymbolKind.String,
+            heading.range,
+            heading.range
+        );
+    }
+
+    /**
+     * Directives are labeled with their argument, or their :title: parameter,
+     * with the directive name as the detail
+     */
+    private createDirectiveSymbol(block: DirectiveBlock, model: ParsedDocument, endLine: number): vscode.DocumentSymbol {
+        const title = block.argument?.trim() || block.parameters.find(parameter => parameter.name === 'title')?.value?.trim();
+        return new vscode.DocumentSymbol(
+            title || `{${block.name}}`,
+            title ? `{${block.name}}` : '',
+            vscode.SymbolKind.Struct,
+            new vscode.Range(block.openingRange.start, new vscode.Position(endLine, model.lines[endLine].length)),
+            block.openingRange
+        );
+    }
+}
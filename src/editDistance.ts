@@ -0,0 +1,80 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Edit distance between two strings, counting insertions, deletions,
+ * substitutions and swaps of adjacent characters as one edit each
+ * (so 'dropdwon' is one edit away from 'dropdown').
+ */
+export function editDistance(a: string, b: string): number {
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const d: number[][] = Array.from({ length: rows }, (_, i) => {
+        const row = new Array<number>(cols).fill(0);
+        row[0] = i;
+        return row;
+    });
+    for (let j = 0; j < cols; j++) {
+        d[0][j] = j;
+    }
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return d[a.length][b.length];
+}
+
+/**
+ * Candidates close enough to a value to be a likely typo, closest first.
+ * Comparison ignores case; up to a third of the value's characters may differ.
+ */
+export function findClosestMatches(value: string, candidates: readonly string[], limit = 3): string[] {
+    const lower = value.toLowerCase();
+    const maxDistance = Math.max(1, Math.floor(value.length / 3));
+
+    return candidates
+        .filter(candidate => candidate !== value)
+        .map(candidate => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+        .filter(({ distance }) => distance <= maxDistance)
+        .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+        .slice(0, limit)
+        .map(({ candidate }) => candidate);
+}
+
+/**
+ * Message suffix listing suggestions, e.g. ". Did you mean 'dropdown'?".
+ * Empty when there are none.
+ */
+export function formatDidYouMean(suggestions: readonly string[], format: (suggestion: string) => string = (s: string): string => `'${s}'`): string {
+    if (suggestions.length === 0) {
+        return '';
+    }
+    const formatted = suggestions.map(format);
+    const list = formatted.length === 1
+        ? formatted[0]
+        : `${formatted.slice(0, -1).join(', ')} or ${formatted[formatted.length - 1]}`;
+    return `. Did you mean ${list}?`;
+}
@@ -0,0 +1,136 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { loadDocumentModel } from './documentModel';
+import { findDocsetForDocument } from './docsetNavigation';
+import { resolveIncludeTarget, MAX_INCLUDE_DEPTH } from './includes';
+import { getSubstitutions, replaceSubstitutions } from './substitutions';
+
+/**
+ * Read-only view of a page the way docs-builder assembles it: every {include}
+ * expanded in place (recursively) and every {{substitution}} replaced with its value.
+ */
+
+export const EXPANDED_PAGE_SCHEME = 'elastic-docs-v3-expanded';
+
+/**
+ * Virtual document URI for a page. The page URI travels in the query;
+ * the path keeps the page name (and .md extension) for the editor tab.
+ */
+export function toExpandedPageUri(pageUri: vscode.Uri): vscode.Uri {
+    return vscode.Uri.from({
+        scheme: EXPANDED_PAGE_SCHEME,
+        path: pageUri.path.replace(/\.md$/i, '.expanded.md'),
+        query: pageUri.toString()
+    });
+}
+
+/**
+ * Lines of a file with its includes expanded. Includes that can't be resolved,
+ * or that would loop back to a file already being expanded, are left as written.
+ */
+async function expandIncludes(
+    uri: vscode.Uri,
+    rootUri: vscode.Uri | undefined,
+    chain: string[]
+): Promise<string[] | null> {
+    const model = await loadDocumentModel(uri);
+    if (!model) {
+        return null;
+    }
+
+    const includesByLine = new Map(
+        model.directives
+            .filter(block => block.name === 'include' && block.argument?.trim())
+            .map(block => [block.openingRange.start.line, block])
+    );
+
+    const output: string[] = [];
+    for (let line = 0; line < model.lines.length; line++) {
+        const block = includesByLine.get(line);
+        if (!block) {
+            output.push(model.lines[line]);
+            continue;
+        }
+
+        const endLine = block.closingRange?.start.line ?? line;
+        const targetUri = await resolveIncludeTarget(block.argument!, uri, rootUri);
+        const expanded = targetUri && !chain.includes(targetUri.toString()) && chain.length < MAX_INCLUDE_DEPTH
+            ? await expandIncludes(targetUri, rootUri, [...chain, targetUri.toString()])
+            : null;
+
+        if (expanded) {
+            // Snippets usually end with a newline; don't double it up
+            while (expanded.length > 0 && expanded[expanded.length - 1].trim() === '') {
+                expanded.pop();
+            }
+            output.push(...expanded);
+        } else {
+            output.push(...model.lines.slice(line, endLine + 1));
+        }
+        line = endLine;
+    }
+
+    return output;
+}
+
+/**
+ * Full text of a page with includes expanded and substitutions replaced
+ */
+export async function buildExpandedPage(pageUri: vscode.Uri): Promise<string> {
+    const docsetUri = await findDocsetForDocument(pageUri);
+    const rootUri = docsetUri && vscode.Uri.joinPath(docsetUri, '..');
+
+    const lines = await expandIncludes(pageUri, rootUri, [pageUri.toString()]);
+    if (!lines) {
+        throw new Error(`Could not read ${pageUri.toString()}`);
+    }
+
+    return replaceSubstitutions(lines.join('\n'), getSubstitutions(pageUri));
+}
+
+/**
+ * Serves expanded page documents
+ */
+export class ExpandedPageContentProvider implements vscode.TextDocumentContentProvider {
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        try {
+            return await buildExpandedPage(vscode.Uri.parse(uri.query));
+        } catch (error) {
+            outputChannel.appendLine(`[ExpandedPage] Error expanding ${uri.query}: ${error}`);
+            return `<!-- Could not expand page: ${error} -->\n`;
+        }
+    }
+
+    /**
+     * Re-render every open expanded page (e.g. after a page or snippet was saved)
+     */
+    refresh(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            if (document.uri.scheme === EXPANDED_PAGE_SCHEME) {
+                this.onDidChangeEmitter.fire(document.uri);
+            }
+        }
+    }
+}
@@ -28,12 +28,36 @@ import { FrontmatterCompletionProvider } from './frontmatterCompletionProvider';
 import { FrontmatterValidationProvider } from './frontmatterValidationProvider';
 import { SubstitutionValidationProvider } from './substitutionValidationProvider';
 import { SubstitutionCodeActionProvider } from './substitutionCodeActionProvider';
+import { DirectiveCodeActionProvider, INSERT_SNIPPET_COMMAND } from './directiveCodeActionProvider';
 import { UndefinedSubstitutionValidator } from './undefinedSubstitutionValidator';
 import { substitutionCache, initializeSubstitutionsForWeb } from './substitutions';
 import { VersionsCache } from './versionsCache';
 import { ValeUpdateChecker } from './valeUpdateChecker';
 import { DocsBuilderUpdateChecker } from './docsBuilderUpdateChecker';
 import { McpInstallChecker } from './mcpInstallChecker';
+import { documentModelCache } from './documentModel';
+import { SubstitutionDefinitionProvider } from './substitutionDefinitionProvider';
+import { SubstitutionReferenceProvider } from './substitutionReferenceProvider';
+import { BuiltInSubstitutionContentProvider, BUILT_IN_SUBSTITUTIONS_SCHEME } from './builtInSubstitutionDocuments';
+import { LinkDiagnosticProvider } from './linkDiagnosticProvider';
+import { LinkCompletionProvider } from './linkCompletionProvider';
+import { IncludeSnippetProvider } from './includeSnippetProvider';
+import { ExpandedPageContentProvider, EXPANDED_PAGE_SCHEME, toExpandedPageUri } from './expandedPageDocuments';
+import { docsetNavigationCache, isNavigationFile } from './docsetNavigation';
+import { TocValidationProvider } from './tocValidationProvider';
+import { TocCompletionProvider } from './tocCompletionProvider';
+import { DocsetNavigationTreeProvider, NAVIGATION_VIEW_ID } from './docsetNavigationTreeProvider';
+import { PreviewPanelManager } from './previewPanel';
+import { AppliesToHoverProvider } from './appliesToHoverProvider';
+import { IconHoverProvider } from './iconHoverProvider';
+import { MarkdownFormattingProvider } from './markdownFormattingProvider';
+import { DocumentOutlineProvider } from './documentOutlineProvider';
+import { DirectiveFoldingProvider } from './directiveFoldingProvider';
+import { SemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from './semanticTokensProvider';
+import { SubstitutionInlayHintsProvider } from './substitutionInlayHintsProvider';
+import { DocsBuilderBuildRunner, findTargetDocset } from './docsBuilderBuild';
+import { DocsBuilderServer } from './docsBuilderServer';
+import { ValeDiagnosticProvider } from './valeDiagnosticProvider';
 
 import { outputChannel } from './logger';
 import { performanceLogger } from './performanceLogger';
@@ -43,12 +67,36 @@ export function activate(context: vscode.ExtensionContext): void {
     outputChannel.appendLine('Elastic Docs V3 Utilities: Extension activated');
     outputChannel.appendLine('Registering completion providers...');
 
+    // Virtual documents backing Go to Definition for built-in product and version substitutions
+    const builtInSubstitutionContentProvider = new BuiltInSubstitutionContentProvider();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(BUILT_IN_SUBSTITUTIONS_SCHEME, builtInSubstitutionContentProvider)
+    );
+
+    // Read-only pages with includes expanded and substitutions replaced
+    const expandedPageContentProvider = new ExpandedPageContentProvider();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(EXPANDED_PAGE_SCHEME, expandedPageContentProvider)
+    );
+
+    // Resolved substitution values shown after each {{variable}}, refreshed whenever the values reload
+    const substitutionInlayHintsProvider = new SubstitutionInlayHintsProvider();
+    context.subscriptions.push(
+        substitutionInlayHintsProvider,
+        vscode.languages.registerInlayHintsProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            substitutionInlayHintsProvider
+        )
+    );
+
     // Initialize versions cache from GitHub (fails silently if unable to fetch)
     const versionsCache = VersionsCache.getInstance();
     versionsCache.initialize().then(() => {
         outputChannel.appendLine('Versions cache initialized from GitHub');
         // Clear substitution cache to ensure versions are picked up
         substitutionCache.clear();
+        builtInSubstitutionContentProvider.refresh();
+        substitutionInlayHintsProvider.refresh();
     }).catch(err => {
         outputChannel.appendLine(`Failed to initialize versions cache: ${err}`);
     });
@@ -58,6 +106,7 @@ export function activate(context: vscode.ExtensionContext): void {
         outputChannel.appendLine('Substitutions for web environment initialized successfully');
         // Clear any existing cache to ensure fresh substitutions are used
         substitutionCache.clear();
+        substitutionInlayHintsProvider.refresh();
     }).catch(err => {
         outputChannel.appendLine(`Failed to initialize substitutions for web: ${err}`);
     });
@@ -80,8 +129,8 @@ export function activate(context: vscode.ExtensionContext): void {
         outputChannel.appendLine(`Failed to check MCP installation: ${err}`);
     });
 
-    // Apply color customizations programmatically
-    applyColorCustomizations();
+    // Colors come from semantic tokens; clean up rules older versions wrote to settings
+    removeLegacyColorCustomizations();
 
     // Test grammar loading
     testGrammarLoading();
@@ -97,11 +146,19 @@ export function activate(context: vscode.ExtensionContext): void {
     const diagnosticProvider = new DirectiveDiagnosticProvider();
     const substitutionProvider = new SubstitutionCompletionProvider();
     const substitutionHoverProvider = new SubstitutionHoverProvider();
+    const substitutionDefinitionProvider = new SubstitutionDefinitionProvider();
+    const substitutionReferenceProvider = new SubstitutionReferenceProvider();
     const frontmatterProvider = new FrontmatterCompletionProvider();
     const frontmatterValidator = new FrontmatterValidationProvider();
     const substitutionValidator = new SubstitutionValidationProvider();
     const undefinedSubstitutionValidator = new UndefinedSubstitutionValidator();
+    const linkDiagnosticProvider = new LinkDiagnosticProvider();
+    const linkCompletionProvider = new LinkCompletionProvider();
+    const includeSnippetProvider = new IncludeSnippetProvider();
+    const tocValidator = new TocValidationProvider();
+    const tocCompletionProvider = new TocCompletionProvider();
     const substitutionCodeActionProvider = new SubstitutionCodeActionProvider();
+    const directiveCodeActionProvider = new DirectiveCodeActionProvider();
 
     // Register completion providers for markdown files
     context.subscriptions.push(
@@ -137,6 +194,16 @@ export function activate(context: vscode.ExtensionContext): void {
     );
     outputChannel.appendLine('Substitution completion provider registered');
 
+    // Register completion provider for link paths and heading anchors
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            linkCompletionProvider,
+            '(', '#', '/'
+        )
+    );
+    outputChannel.appendLine('Link completion provider registered');
+
     // Register hover provider for substitution variables
     context.subscriptions.push(
         vscode.languages.registerHoverProvider(
@@ -146,6 +213,61 @@ export function activate(context: vscode.ExtensionContext): void {
     );
     outputChannel.appendLine('Substitution hover provider registered');
 
+    // Register hover provider for applies_to badges
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            new AppliesToHoverProvider()
+        )
+    );
+    outputChannel.appendLine('Applies_to hover provider registered');
+
+    // Register hover provider for icon previews
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            new IconHoverProvider()
+        )
+    );
+    outputChannel.appendLine('Icon hover provider registered');
+
+    // Register definition provider for substitution variables
+    context.subscriptions.push(
+        vscode.languages.registerDefinitionProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            substitutionDefinitionProvider
+        )
+    );
+    outputChannel.appendLine('Substitution definition provider registered');
+
+    // Register hover and definition providers for included snippets
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            includeSnippetProvider
+        )
+    );
+    context.subscriptions.push(
+        vscode.languages.registerDefinitionProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            includeSnippetProvider
+        )
+    );
+    outputChannel.appendLine('Include snippet hover and definition providers registered');
+
+    // Register reference and rename providers for substitution keys, in pages and docset files
+    const substitutionKeySelector: vscode.DocumentSelector = [
+        { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+        { scheme: '*', pattern: '**/{docset,_docset}.yml' }
+    ];
+    context.subscriptions.push(
+        vscode.languages.registerReferenceProvider(substitutionKeySelector, substitutionReferenceProvider)
+    );
+    context.subscriptions.push(
+        vscode.languages.registerRenameProvider(substitutionKeySelector, substitutionReferenceProvider)
+    );
+    outputChannel.appendLine('Substitution reference and rename providers registered');
+
     // Register code action provider for substitution quick fixes
     context.subscriptions.push(
         vscode.languages.registerCodeActionsProvider(
@@ -158,6 +280,62 @@ export function activate(context: vscode.ExtensionContext): void {
     );
     outputChannel.appendLine('Substitution code action provider registered');
 
+    // Register code action provider for directive quick fixes
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            directiveCodeActionProvider,
+            {
+                providedCodeActionKinds: DirectiveCodeActionProvider.providedCodeActionKinds
+            }
+        )
+    );
+    outputChannel.appendLine('Directive code action provider registered');
+
+    // Register formatter for whole documents and selections
+    const markdownFormattingProvider = new MarkdownFormattingProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            markdownFormattingProvider
+        )
+    );
+    context.subscriptions.push(
+        vscode.languages.registerDocumentRangeFormattingEditProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            markdownFormattingProvider
+        )
+    );
+    outputChannel.appendLine('Markdown formatting provider registered');
+
+    // Register outline of headings, directives and frontmatter
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSymbolProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            new DocumentOutlineProvider()
+        )
+    );
+    outputChannel.appendLine('Document outline provider registered');
+
+    // Register folding for directive blocks, frontmatter and applies_to blocks
+    context.subscriptions.push(
+        vscode.languages.registerFoldingRangeProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            new DirectiveFoldingProvider()
+        )
+    );
+    outputChannel.appendLine('Directive folding provider registered');
+
+    // Register semantic highlighting for directives, roles, substitutions and applies_to
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSemanticTokensProvider(
+            { scheme: '*', language: 'markdown', pattern: '**/*.md' },
+            new SemanticTokensProvider(),
+            SEMANTIC_TOKENS_LEGEND
+        )
+    );
+    outputChannel.appendLine('Semantic tokens provider registered');
+
     // Register frontmatter completion provider
     // Trigger on colon for values, space after colon, and other key characters
     context.subscriptions.push(
@@ -169,20 +347,46 @@ export function activate(context: vscode.ExtensionContext): void {
     );
     outputChannel.appendLine('Frontmatter completion provider registered');
 
+    // Register path completion for docset.yml and toc.yml entries
+    const tocSelector: vscode.DocumentSelector = { scheme: '*', pattern: '**/{toc,_toc,docset,_docset}.yml' };
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(
+            tocSelector,
+            tocCompletionProvider,
+            ' ', '/'
+        )
+    );
+    outputChannel.appendLine('Toc completion provider registered');
+
     // Register diagnostic providers
     const diagnosticCollection = vscode.languages.createDiagnosticCollection('elastic-directives');
     const frontmatterDiagnosticCollection = vscode.languages.createDiagnosticCollection('elastic-frontmatter');
     const substitutionDiagnosticCollection = vscode.languages.createDiagnosticCollection('elastic-substitution');
     const undefinedSubDiagnosticCollection = vscode.languages.createDiagnosticCollection('elastic-undefined-sub');
+    const linkDiagnosticCollection = vscode.languages.createDiagnosticCollection('elastic-links');
+    const tocDiagnosticCollection = vscode.languages.createDiagnosticCollection('elastic-toc');
+    const unlistedPageDiagnosticCollection = vscode.languages.createDiagnosticCollection('elastic-unlisted-pages');
+    const docsBuilderDiagnosticCollection = vscode.languages.createDiagnosticCollection('docs-builder');
+    const valeDiagnosticCollection = vscode.languages.createDiagnosticCollection('vale');
     context.subscriptions.push(diagnosticCollection);
     context.subscriptions.push(frontmatterDiagnosticCollection);
     context.subscriptions.push(substitutionDiagnosticCollection);
     context.subscriptions.push(undefinedSubDiagnosticCollection);
+    context.subscriptions.push(linkDiagnosticCollection);
+    context.subscriptions.push(tocDiagnosticCollection);
+    context.subscriptions.push(unlistedPageDiagnosticCollection);
+    context.subscriptions.push(docsBuilderDiagnosticCollection);
+    context.subscriptions.push(valeDiagnosticCollection);
+
+    // Vale style checks run on save, since Vale reads the file from disk
+    const valeDiagnosticProvider = new ValeDiagnosticProvider(valeDiagnosticCollection);
+    context.subscriptions.push(valeDiagnosticProvider);
 
     // PERFORMANCE OPTIMIZATION: Debounced diagnostics update
     let diagnosticsUpdateTimeout: NodeJS.Timeout | undefined;
     const updateDiagnostics = (document: vscode.TextDocument): void => {
         if (document.languageId !== 'markdown') return;
+        if (document.uri.scheme === EXPANDED_PAGE_SCHEME) return;
 
         // Clear existing timeout to debounce rapid updates
         if (diagnosticsUpdateTimeout) {
@@ -195,13 +399,12 @@ export function activate(context: vscode.ExtensionContext): void {
                 performanceLogger.measureSync(
                     'Extension.updateDiagnostics',
                     () => {
-                        try {
-                            // Directive diagnostics
-                            const diagnostics = diagnosticProvider.provideDiagnostics(document);
+                        // Directive diagnostics (include targets are checked on disk, so they arrive asynchronously)
+                        diagnosticProvider.provideDiagnostics(document).then(diagnostics => {
                             diagnosticCollection.set(document.uri, diagnostics);
-                        } catch (err) {
+                        }).catch(err => {
                             outputChannel.appendLine(`Error in directive diagnostics: ${err}`);
-                        }
+                        });
 
                         try {
                             // Frontmatter diagnostics
@@ -226,6 +429,13 @@ export function activate(context: vscode.ExtensionContext): void {
                         } catch (err) {
                             outputChannel.appendLine(`Error in undefined substitution diagnostics: ${err}`);
                         }
+
+                        // Link diagnostics (reads target files, so they arrive asynchronously)
+                        linkDiagnosticProvider.provideDiagnostics(document).then(linkDiagnostics => {
+                            linkDiagnosticCollection.set(document.uri, linkDiagnostics);
+                        }).catch(err => {
+                            outputChannel.appendLine(`Error in link diagnostics: ${err}`);
+                        });
                     },
                     { fileName: document.fileName }
                 );
@@ -235,7 +445,32 @@ export function activate(context: vscode.ExtensionContext): void {
         }, 500);
     };
 
+    // Toc diagnostics for docset.yml and toc.yml files
+    const updateTocDiagnostics = (document: vscode.TextDocument): void => {
+        if (!isNavigationFile(document.fileName)) return;
+
+        tocValidator.validateDocument(document).then(tocDiagnostics => {
+            tocDiagnosticCollection.set(document.uri, tocDiagnostics);
+        }).catch(err => {
+            outputChannel.appendLine(`Error in toc diagnostics: ${err}`);
+        });
+    };
+
+    // Warnings on pages that no toc lists, across all docsets in the workspace
+    const updateUnlistedPages = (): void => {
+        vscode.workspace.findFiles('**/{docset,_docset}.yml', '**/node_modules/**')
+            .then(docsetUris => tocValidator.provideUnlistedPageDiagnostics(docsetUris))
+            .then(entries => {
+                unlistedPageDiagnosticCollection.clear();
+                unlistedPageDiagnosticCollection.set(entries);
+            }, err => {
+                outputChannel.appendLine(`Error checking for pages missing from the toc: ${err}`);
+            });
+    };
+    updateUnlistedPages();
+
     // Initial diagnostics for already open documents
+    vscode.workspace.textDocuments.forEach(updateTocDiagnostics);
     if (vscode.window.activeTextEditor) {
         try {
             updateDiagnostics(vscode.window.activeTextEditor.document);
@@ -249,23 +484,123 @@ export function activate(context: vscode.ExtensionContext): void {
         vscode.workspace.onDidOpenTextDocument(document => {
             try {
                 updateDiagnostics(document);
+                updateTocDiagnostics(document);
             } catch (err) {
                 outputChannel.appendLine(`Error updating diagnostics on document open: ${err}`);
             }
         })
     );
 
+    // Live preview of the active page
+    const previewPanelManager = new PreviewPanelManager();
+    context.subscriptions.push(previewPanelManager);
+
+    // Keep the shared document model in sync with edits so providers don't re-parse
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document.languageId !== 'markdown') return;
+            documentModelCache.update(event);
+            previewPanelManager.onDocumentChanged(event.document);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(editor => previewPanelManager.onActiveEditorChanged(editor))
+    );
+    context.subscriptions.push(
+        vscode.window.onDidChangeTextEditorVisibleRanges(event => previewPanelManager.onEditorScrolled(event.textEditor))
+    );
+
+    context.subscriptions.push(
+        vscode.workspace.onDidCloseTextDocument(document => {
+            documentModelCache.delete(document.uri);
+            valeDiagnosticProvider.clear(document.uri);
+        })
+    );
+
+    // Sidebar tree of the docset navigation
+    const navigationTreeProvider = new DocsetNavigationTreeProvider(frontmatterValidator);
+    const navigationTreeView = vscode.window.createTreeView(NAVIGATION_VIEW_ID, {
+        treeDataProvider: navigationTreeProvider,
+        showCollapseAll: true
+    });
+    context.subscriptions.push(navigationTreeView);
+
+    const revealInNavigation = async (editor: vscode.TextEditor | undefined): Promise<void> => {
+        if (!editor || editor.document.languageId !== 'markdown' || !navigationTreeView.visible) return;
+        try {
+            const node = await navigationTreeProvider.findNode(editor.document.uri);
+            if (node) {
+                await navigationTreeView.reveal(node, { select: true, focus: false, expand: true });
+            }
+        } catch (err) {
+            outputChannel.appendLine(`Error revealing page in navigation: ${err}`);
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(editor => revealInNavigation(editor))
+    );
+    context.subscriptions.push(
+        navigationTreeView.onDidChangeVisibility(event => {
+            if (event.visible) {
+                revealInNavigation(vscode.window.activeTextEditor);
+            }
+        })
+    );
+
+    // Error badges follow the diagnostics of every collection
+    let navigationBadgeTimeout: NodeJS.Timeout | undefined;
+    context.subscriptions.push(
+        vscode.languages.onDidChangeDiagnostics(() => {
+            if (navigationBadgeTimeout) {
+                clearTimeout(navigationBadgeTimeout);
+            }
+            navigationBadgeTimeout = setTimeout(() => {
+                const pagesWithErrors = vscode.languages.getDiagnostics().filter(([uri, diagnostics]) =>
+                    uri.path.endsWith('.md') && diagnostics.some(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error)
+                ).length;
+                navigationTreeView.badge = pagesWithErrors > 0
+                    ? { value: pagesWithErrors, tooltip: `${pagesWithErrors} page${pagesWithErrors !== 1 ? 's' : ''} with errors` }
+                    : undefined;
+                navigationTreeProvider.refreshPages();
+            }, 500);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.refreshNavigation', () => {
+            docsetNavigationCache.clear();
+            navigationTreeProvider.refresh();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.revealInNavigation', async () => {
+            await vscode.commands.executeCommand(`${NAVIGATION_VIEW_ID}.focus`);
+            await revealInNavigation(vscode.window.activeTextEditor);
+        })
+    );
+
     // PERFORMANCE OPTIMIZATION: Single document save listener with smart cache management
     context.subscriptions.push(
         vscode.workspace.onDidSaveTextDocument(document => {
             try {
-                if (document.fileName.endsWith('docset.yml') || document.fileName.endsWith('_docset.yml')) {
-                    // Docset.yml changed - clear cache and re-validate all markdown documents
+                if (isNavigationFile(document.fileName)) {
+                    // Docset.yml or toc.yml changed - clear caches and re-validate all markdown documents
                     performanceLogger.measureSync(
                         'Extension.docsetFileChanged',
                         () => {
-                            substitutionCache.clear();
-                            outputChannel.appendLine('Substitution cache cleared due to docset.yml change');
+                            docsetNavigationCache.clear();
+                            updateTocDiagnostics(document);
+                            updateUnlistedPages();
+                            navigationTreeProvider.refresh();
+                            if (document.fileName.endsWith('docset.yml')) {
+                                substitutionCache.clear();
+                                outputChannel.appendLine('Substitution cache cleared due to docset.yml change');
+                                substitutionInlayHintsProvider.refresh();
+                                previewPanelManager.refresh();
+                            }
 
                             // Re-validate all open markdown documents
                             const markdownDocs = vscode.workspace.textDocuments.filter(doc => doc.languageId === 'markdown');
@@ -288,6 +623,12 @@ export function activate(context: vscode.ExtensionContext): void {
                             outputChannel.appendLine(`Substitution cache cleared for ${document.fileName}`);
                         }
                         updateDiagnostics(document);
+                        // Build results for this page are stale until the next build
+                        docsBuilderDiagnosticCollection.delete(document.uri);
+                        valeDiagnosticProvider.lint(document);
+                        expandedPageContentProvider.refresh();
+                        previewPanelManager.refresh();
+                        navigationTreeProvider.refreshPages(true);
                     } catch (err) {
                         outputChannel.appendLine(`Error processing markdown save for ${document.fileName}: ${err}`);
                     }
@@ -298,6 +639,15 @@ export function activate(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Pages added, removed or moved change which pages are missing from the toc
+    const onPagesMoved = (): void => {
+        updateUnlistedPages();
+        navigationTreeProvider.refresh();
+    };
+    context.subscriptions.push(vscode.workspace.onDidCreateFiles(onPagesMoved));
+    context.subscriptions.push(vscode.workspace.onDidDeleteFiles(onPagesMoved));
+    context.subscriptions.push(vscode.workspace.onDidRenameFiles(onPagesMoved));
+
     // Register command to replace entire line
     context.subscriptions.push(
         vscode.commands.registerCommand('elastic-docs-v3.replaceEntireLine', (template: string) => {
@@ -319,6 +669,43 @@ export function activate(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Register command used by quick fixes that leave the cursor inside the inserted text
+    context.subscriptions.push(
+        vscode.commands.registerCommand(INSERT_SNIPPET_COMMAND, async (uri: vscode.Uri, location: vscode.Position | vscode.Range, snippet: string) => {
+            const editor = await vscode.window.showTextDocument(uri);
+            await editor.insertSnippet(new vscode.SnippetString(snippet), location);
+        })
+    );
+
+    // Register command to show the current page with includes expanded
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.showExpandedPage', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'markdown') {
+                vscode.window.showWarningMessage('Open a Markdown page to show it with includes expanded.');
+                return;
+            }
+
+            const uri = editor.document.uri.scheme === EXPANDED_PAGE_SCHEME
+                ? editor.document.uri
+                : toExpandedPageUri(editor.document.uri);
+            const document = await vscode.workspace.openTextDocument(uri);
+            await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+        })
+    );
+
+    // Register command to open the live preview
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.showPreview', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.document.languageId !== 'markdown') {
+                vscode.window.showWarningMessage('Open a Markdown page to preview it.');
+                return;
+            }
+            await previewPanelManager.show(editor.document);
+        })
+    );
+
     // Register command to manually refresh versions cache
     context.subscriptions.push(
         vscode.commands.registerCommand('elastic-docs-v3.refreshVersions', async () => {
@@ -336,6 +723,8 @@ export function activate(context: vscode.ExtensionContext): void {
 
                     // Clear substitution cache to ensure new versions are picked up
                     substitutionCache.clear();
+                    builtInSubstitutionContentProvider.refresh();
+                    substitutionInlayHintsProvider.refresh();
 
                     // Re-validate all open markdown documents
                     const markdownDocs = vscode.workspace.textDocuments.filter(doc => doc.languageId === 'markdown');
@@ -400,6 +789,49 @@ export function activate(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Register commands to build the current docset with docs-builder
+    const docsBuilderBuildRunner = new DocsBuilderBuildRunner(docsBuilderDiagnosticCollection);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.buildDocset', async () => {
+            const docsetUri = await findTargetDocset();
+            if (!docsetUri) {
+                vscode.window.showWarningMessage('No docset.yml found in this workspace.');
+                return;
+            }
+            await docsBuilderBuildRunner.build(docsetUri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.clearBuildProblems', () => {
+            docsBuilderDiagnosticCollection.clear();
+        })
+    );
+
+    // Register commands to serve the current docset with docs-builder and preview it
+    const docsBuilderServer = new DocsBuilderServer();
+    context.subscriptions.push(docsBuilderServer);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.serveDocs', async () => {
+            const docsetUri = await findTargetDocset();
+            if (!docsetUri) {
+                vscode.window.showWarningMessage('No docset.yml found in this workspace.');
+                return;
+            }
+            const editor = vscode.window.activeTextEditor;
+            const documentUri = editor?.document.languageId === 'markdown' ? editor.document.uri : undefined;
+            await docsBuilderServer.serveAndOpen(docsetUri, documentUri);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.restartServe', () => docsBuilderServer.restart())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('elastic-docs-v3.stopServe', () => docsBuilderServer.stop())
+    );
+
     // Register command to test docs-builder update notification (for development/testing)
     context.subscriptions.push(
         vscode.commands.registerCommand('elastic-docs-v3.testDocsBuilderUpdateNotification', async () => {
@@ -426,6 +858,8 @@ export function activate(context: vscode.ExtensionContext): void {
         versionsCache.refreshIfNeeded().then(() => {
             // Clear substitution cache when versions are refreshed
             substitutionCache.clear();
+            builtInSubstitutionContentProvider.refresh();
+            substitutionInlayHintsProvider.refresh();
         });
     }, 1000 * 60 * 60); // 1 hour
 
@@ -437,107 +871,38 @@ export function activate(context: vscode.ExtensionContext): void {
     // PERFORMANCE OPTIMIZATION: Removed debug timeout to reduce overhead
 }
 
-function applyColorCustomizations(): void {
+/**
+ * Earlier versions wrote TextMate color rules for the '.elastic' scopes into the user's
+ * global editor.tokenColorCustomizations. Highlighting now comes from semantic tokens,
+ * so take those rules back out, leaving any of the user's own rules in place.
+ */
+function removeLegacyColorCustomizations(): void {
     const config = vscode.workspace.getConfiguration('editor');
-    const currentCustomizations = config.get('tokenColorCustomizations') as Record<string, unknown> || {};
-    const existingRules = (currentCustomizations.textMateRules as Array<{ scope?: string }>) || [];
-
-    // Check if our rules are already applied by looking for a known elastic scope
-    const elasticRulesAlreadyApplied = existingRules.some(
-        rule => rule.scope && rule.scope.includes('.elastic')
-    );
-
-    if (elasticRulesAlreadyApplied) {
-        // Rules already exist, skip the expensive settings write
+    const globalValue = config.inspect<Record<string, unknown>>('tokenColorCustomizations')?.globalValue;
+    const existingRules = globalValue?.textMateRules;
+    if (!globalValue || !Array.isArray(existingRules)) {
         return;
     }
 
-    // Define our custom color rules
-    const elasticRules = [
-        {
-            "scope": "markup.directive.punctuation.elastic",
-            "settings": {
-                "foreground": "#569cd6",
-                "fontStyle": "bold"
-            }
-        },
-        {
-            "scope": "markup.directive.punctuation.brace.elastic",
-            "settings": {
-                "foreground": "#569cd6",
-                "fontStyle": "bold"
-            }
-        },
-        {
-            "scope": "markup.directive.name.elastic",
-            "settings": {
-                "foreground": "#4ec9b0",
-                "fontStyle": "bold"
-            }
-        },
-        {
-            "scope": "markup.directive.argument.elastic",
-            "settings": {
-                "foreground": "#ce9178",
-                "fontStyle": "italic"
-            }
-        },
-        {
-            "scope": "markup.role.name.elastic",
-            "settings": {
-                "foreground": "#c586c0",
-                "fontStyle": "bold"
-            }
-        },
-        {
-            "scope": "markup.role.punctuation.elastic",
-            "settings": {
-                "foreground": "#c586c0"
-            }
-        },
-        {
-            "scope": "markup.role.content.elastic",
-            "settings": {
-                "foreground": "#d7ba7d"
-            }
-        },
-        {
-            "scope": "markup.substitution.punctuation.elastic",
-            "settings": {
-                "foreground": "#569cd6",
-                "fontStyle": "bold"
-            }
-        },
-        {
-            "scope": "markup.substitution.variable.elastic",
-            "settings": {
-                "foreground": "#4ec9b0",
-                "fontStyle": "bold"
-            }
-        },
-        {
-            "scope": "markup.substitution.mutation.pipe.elastic",
-            "settings": {
-                "foreground": "#d4d4d4",
-                "fontStyle": ""
-            }
-        },
-        {
-            "scope": "markup.substitution.mutation.operator.elastic",
-            "settings": {
-                "foreground": "#dcdcaa",
-                "fontStyle": "italic"
-            }
-        }
-    ];
-
-    // Merge with existing rules and apply (only on first activation)
-    const newRules = [...existingRules, ...elasticRules];
+    const isElasticRule = (rule: { scope?: string | string[] }): boolean =>
+        ([] as string[]).concat(rule.scope ?? []).some(scope => scope.includes('.elastic'));
+    const remainingRules = existingRules.filter(rule => !isElasticRule(rule));
+    if (remainingRules.length === existingRules.length) {
+        return;
+    }
 
-    config.update('tokenColorCustomizations', {
-        ...currentCustomizations,
-        textMateRules: newRules
-    }, vscode.ConfigurationTarget.Global);
+    const updated: Record<string, unknown> = { ...globalValue, textMateRules: remainingRules };
+    if (remainingRules.length === 0) {
+        delete updated.textMateRules;
+    }
+    config.update(
+        'tokenColorCustomizations',
+        Object.keys(updated).length > 0 ? updated : undefined,
+        vscode.ConfigurationTarget.Global
+    ).then(
+        () => outputChannel.appendLine('Removed legacy Elastic token color rules from user settings'),
+        err => outputChannel.appendLine(`Failed to remove legacy token color rules: ${err}`)
+    );
 }
 
 function testGrammarLoading(): void {
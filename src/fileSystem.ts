@@ -83,6 +83,13 @@ export async function isDirectory(uri: vscode.Uri): Promise<boolean> {
   }
 }
 
+/**
+ * Find files matching a glob below a folder (works in both environments)
+ */
+export async function findFilesInFolder(folderUri: vscode.Uri, glob: string): Promise<vscode.Uri[]> {
+  return vscode.workspace.findFiles(new vscode.RelativePattern(folderUri, glob), '**/node_modules/**');
+}
+
 /**
  * Check if a path is a directory synchronously (only works in Node.js environment)
  */
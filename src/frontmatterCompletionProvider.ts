@@ -20,6 +20,7 @@
 import * as vscode from 'vscode';
 import { outputChannel } from './logger';
 import { frontmatterSchema } from './frontmatterSchema';
+import { documentModelCache } from './documentModel';
 
 interface SchemaProperty {
     type?: string;
@@ -54,8 +55,6 @@ interface FrontmatterContext {
 
 export class FrontmatterCompletionProvider implements vscode.CompletionItemProvider {
     private schema: FrontmatterSchema;
-    private readonly FRONTMATTER_START = /^---\s*$/;
-    private readonly FRONTMATTER_END = /^---\s*$/;
 
     constructor() {
         this.schema = frontmatterSchema as unknown as FrontmatterSchema;
@@ -94,21 +93,9 @@ export class FrontmatterCompletionProvider implements vscode.CompletionItemProvi
     }
 
     private getFrontmatterRange(document: vscode.TextDocument): vscode.Range | null {
-        if (document.lineCount < 2) return null;
-
-        // Check if document starts with frontmatter
-        if (!this.FRONTMATTER_START.test(document.lineAt(0).text)) {
-            return null;
-        }
-
-        // Find the end of frontmatter
-        for (let i = 1; i < document.lineCount; i++) {
-            if (this.FRONTMATTER_END.test(document.lineAt(i).text)) {
-                return new vscode.Range(0, 0, i, 0);
-            }
-        }
-
-        return null;
+        // Frontmatter boundaries come from the shared document model
+        const frontmatter = documentModelCache.get(document).frontmatter;
+        return frontmatter ? frontmatter.range : null;
     }
 
     private analyzeContext(document: vscode.TextDocument, position: vscode.Position, frontmatterRange: vscode.Range): FrontmatterContext | null {
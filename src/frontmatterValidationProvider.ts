@@ -22,6 +22,7 @@ import { frontmatterSchema } from './frontmatterSchema';
 import { performanceLogger } from './performanceLogger';
 import { validateAppliesToValue, parseVersion, parseVersionEntry } from './appliesToValidator';
 import { VersionsCache } from './versionsCache';
+import { documentModelCache } from './documentModel';
 
 interface SchemaProperty {
     type?: string;
@@ -56,8 +57,6 @@ interface ValidationError {
 
 export class FrontmatterValidationProvider {
     private schema: FrontmatterSchema;
-    private readonly FRONTMATTER_START = /^---\s*$/;
-    private readonly FRONTMATTER_END = /^---\s*$/;
 
     constructor() {
         this.schema = frontmatterSchema as unknown as FrontmatterSchema;
@@ -108,22 +107,18 @@ export class FrontmatterValidationProvider {
         );
     }
 
-    private getFrontmatterRange(document: vscode.TextDocument): vscode.Range | null {
-        if (document.lineCount < 2) return null;
-
-        // Check if document starts with frontmatter
-        if (!this.FRONTMATTER_START.test(document.lineAt(0).text)) {
-            return null;
-        }
-
-        // Find the end of frontmatter
-        for (let i = 1; i < document.lineCount; i++) {
-            if (this.FRONTMATTER_END.test(document.lineAt(i).text)) {
-                return new vscode.Range(0, 0, i, 0);
-            }
-        }
+    /**
+     * Parse frontmatter lines (without the --- markers) into plain data,
+     * the same way they are parsed for validation
+     */
+    public parseFrontmatter(lines: readonly string[]): Record<string, unknown> {
+        return this.parseYamlForValidation([...lines], 0);
+    }
 
-        return null;
+    private getFrontmatterRange(document: vscode.TextDocument): vscode.Range | null {
+        // Frontmatter boundaries come from the shared document model
+        const frontmatter = documentModelCache.get(document).frontmatter;
+        return frontmatter ? frontmatter.range : null;
     }
 
     private parseYamlForValidation(lines: string[], _startLine: number): Record<string, unknown> {
@@ -0,0 +1,82 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache } from './documentModel';
+import { ICON_SVGS } from './iconSvgs';
+
+// Size icons are shown at in hovers and completion details
+const PREVIEW_SIZE = 32;
+
+// Fill for monochrome glyphs, readable on both light and dark themes
+const PREVIEW_FILL = '#8c8c8c';
+
+/**
+ * Markdown image of an icon, embedded as a data URI so it needs no network access.
+ * Returns undefined for icons that aren't bundled.
+ */
+export function getIconPreviewMarkdown(name: string): string | undefined {
+    const svg = ICON_SVGS[name];
+    if (!svg) {
+        return undefined;
+    }
+
+    const sized = svg.replace(/^<svg([^>]*)>/, (match, attributes: string) => {
+        const rest = attributes.replace(/\s(?:width|height|fill)="[^"]*"/g, '');
+        // Multi-colored logos fill their own shapes and keep their root fill (usually "none");
+        // glyphs get the preview fill, even if their root says "none"
+        const rootFill = attributes.match(/\sfill="([^"]*)"/)?.[1];
+        const fill = rootFill !== undefined && /\sfill="/.test(svg.substring(match.length)) ? rootFill : PREVIEW_FILL;
+        return `<svg${rest} width="${PREVIEW_SIZE}" height="${PREVIEW_SIZE}" fill="${fill}">`;
+    });
+    return `![${name}](data:image/svg+xml;base64,${btoa(sized)})`;
+}
+
+/**
+ * Shows the icon an {icon}`name` role renders
+ */
+export class IconHoverProvider implements vscode.HoverProvider {
+    provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Hover> {
+        try {
+            const role = documentModelCache.get(document).roles.find(r => r.name === 'icon' && r.range.contains(position));
+            if (!role) {
+                return null;
+            }
+
+            const name = role.content.trim();
+            const image = getIconPreviewMarkdown(name);
+            if (!image) {
+                return null;
+            }
+
+            const markdown = new vscode.MarkdownString();
+            markdown.appendMarkdown(`${image}\n\n`);
+            markdown.appendMarkdown(`**Icon:** \`${name}\``);
+            return new vscode.Hover(markdown, role.range);
+        } catch (error) {
+            outputChannel.appendLine(`Error in icon hover: ${error}`);
+            return null;
+        }
+    }
+}
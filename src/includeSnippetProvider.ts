@@ -0,0 +1,121 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache, loadDocumentModel, DirectiveBlock } from './documentModel';
+import { findDocsetForDocument } from './docsetNavigation';
+import { isIncludeDirective, resolveIncludeTarget } from './includes';
+import { getSubstitutions, replaceSubstitutions } from './substitutions';
+
+// Long snippets are cut off in the hover
+const MAX_PREVIEW_LINES = 60;
+
+/**
+ * Hover preview and Go to Definition for {include} and {csv-include} arguments.
+ * The hover renders the snippet with the including page's substitutions applied.
+ */
+export class IncludeSnippetProvider implements vscode.HoverProvider, vscode.DefinitionProvider {
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.Hover | null> {
+        try {
+            const block = this.findIncludeAt(document, position);
+            if (!block || block.name !== 'include') {
+                return null;
+            }
+
+            const targetUri = await this.resolveTarget(block, document);
+            if (!targetUri) {
+                return null;
+            }
+
+            const snippet = await loadDocumentModel(targetUri);
+            if (!snippet) {
+                return null;
+            }
+
+            let lines = snippet.lines;
+            const truncated = lines.length > MAX_PREVIEW_LINES;
+            if (truncated) {
+                lines = lines.slice(0, MAX_PREVIEW_LINES);
+            }
+            const content = replaceSubstitutions(lines.join('\n'), getSubstitutions(document.uri));
+
+            const markdown = new vscode.MarkdownString();
+            markdown.appendMarkdown(`**Snippet:** \`${vscode.workspace.asRelativePath(targetUri)}\`\n\n`);
+            markdown.appendMarkdown('---\n\n');
+            markdown.appendMarkdown(content);
+            if (truncated) {
+                markdown.appendMarkdown(`\n\n*… ${snippet.lines.length - MAX_PREVIEW_LINES} more lines*`);
+            }
+            markdown.appendMarkdown(`\n\n---\n\n[Open snippet](${targetUri.toString()})`);
+
+            return new vscode.Hover(markdown, block.argumentRange ?? block.openingRange);
+        } catch (error) {
+            outputChannel.appendLine(`Error in include hover: ${error}`);
+            return null;
+        }
+    }
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.LocationLink[] | null> {
+        try {
+            const block = this.findIncludeAt(document, position);
+            if (!block) {
+                return null;
+            }
+
+            const targetUri = await this.resolveTarget(block, document);
+            if (!targetUri) {
+                return null;
+            }
+
+            const start = new vscode.Range(0, 0, 0, 0);
+            const link: vscode.LocationLink = {
+                originSelectionRange: block.argumentRange,
+                targetUri,
+                targetRange: start,
+                targetSelectionRange: start
+            };
+            return [link];
+        } catch (error) {
+            outputChannel.appendLine(`Error in include definition: ${error}`);
+            return null;
+        }
+    }
+
+    private findIncludeAt(document: vscode.TextDocument, position: vscode.Position): DirectiveBlock | undefined {
+        return documentModelCache.get(document).directives.find(block =>
+            isIncludeDirective(block) &&
+            block.argumentRange !== undefined &&
+            block.argumentRange.contains(position)
+        );
+    }
+
+    private async resolveTarget(block: DirectiveBlock, document: vscode.TextDocument): Promise<vscode.Uri | undefined> {
+        const docsetUri = await findDocsetForDocument(document.uri);
+        return resolveIncludeTarget(block.argument!, document.uri, docsetUri && vscode.Uri.joinPath(docsetUri, '..'));
+    }
+}
@@ -0,0 +1,113 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { exists } from './fileSystem';
+import { loadDocumentModel, DirectiveBlock } from './documentModel';
+import { resolveDocsetPath } from './docsetNavigation';
+
+/**
+ * Resolution of {include} and {csv-include} targets, shared by diagnostics,
+ * hovers, definitions and the expanded page view.
+ */
+
+export const INCLUDE_DIRECTIVES = ['include', 'csv-include'];
+
+// Guards against runaway include chains
+export const MAX_INCLUDE_DEPTH = 20;
+
+/**
+ * Whether a directive pulls in another file
+ */
+export function isIncludeDirective(block: DirectiveBlock): boolean {
+    return INCLUDE_DIRECTIVES.includes(block.name) && !!block.argument?.trim();
+}
+
+/**
+ * Whether a path sits inside a '_snippets' folder
+ */
+export function isSnippetPath(uri: vscode.Uri): boolean {
+    return uri.path.split('/').includes('_snippets');
+}
+
+/**
+ * Resolve an include argument. Paths are tried relative to the including file first,
+ * then relative to the docset root. Returns undefined if neither exists.
+ */
+export async function resolveIncludeTarget(
+    argument: string,
+    fromUri: vscode.Uri,
+    rootUri?: vscode.Uri
+): Promise<vscode.Uri | undefined> {
+    const path = argument.trim();
+    const candidates = [resolveDocsetPath(path, fromUri, rootUri)];
+    if (rootUri && !path.startsWith('/')) {
+        candidates.push(vscode.Uri.joinPath(rootUri, path));
+    }
+
+    for (const candidate of candidates) {
+        if (await exists(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Follow {include} directives from a target file and return the chain of files
+ * from the including page to the first file that is included again further down
+ * (e.g. page → a → b → a), or undefined if there is no cycle.
+ */
+export async function findIncludeCycle(
+    pageUri: vscode.Uri,
+    targetUri: vscode.Uri,
+    rootUri?: vscode.Uri
+): Promise<vscode.Uri[] | undefined> {
+    // Files whose includes were followed without finding a cycle
+    const visited = new Set<string>();
+
+    const visit = async (uri: vscode.Uri, chain: vscode.Uri[]): Promise<vscode.Uri[] | undefined> => {
+        if (chain.some(previous => previous.toString() === uri.toString())) {
+            return [...chain, uri];
+        }
+        if (visited.has(uri.toString()) || chain.length > MAX_INCLUDE_DEPTH) {
+            return undefined;
+        }
+
+        const model = await loadDocumentModel(uri);
+        if (!model) {
+            return undefined;
+        }
+
+        for (const block of model.directives) {
+            if (block.name !== 'include' || !isIncludeDirective(block)) {
+                continue;
+            }
+            const next = await resolveIncludeTarget(block.argument!, uri, rootUri);
+            const cycle = next && await visit(next, [...chain, uri]);
+            if (cycle) {
+                return cycle;
+            }
+        }
+        visited.add(uri.toString());
+        return undefined;
+    };
+
+    return visit(targetUri, [pageUri]);
+}
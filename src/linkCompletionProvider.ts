@@ -0,0 +1,129 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { findFilesInFolder } from './fileSystem';
+import { loadDocumentModel } from './documentModel';
+import { findDocsetForDocument, resolveDocsetPath } from './docsetNavigation';
+
+// Path typed so far after '](', up to the cursor
+const LINK_PATH_PATTERN = /\]\(([^)\s#]*)$/;
+// Path and partial anchor after '](path#'
+const LINK_ANCHOR_PATTERN = /\]\(([^)\s#]*)#([^)\s]*)$/;
+
+/**
+ * Completion for link targets: relative .md paths within the docset after '](',
+ * and heading anchors of the target page after '#'.
+ */
+export class LinkCompletionProvider implements vscode.CompletionItemProvider {
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+        _context: vscode.CompletionContext
+    ): Promise<vscode.CompletionItem[]> {
+        try {
+            const lineText = document.lineAt(position).text;
+            const textBefore = lineText.substring(0, position.character);
+
+            const anchorMatch = textBefore.match(LINK_ANCHOR_PATTERN);
+            if (anchorMatch) {
+                const range = new vscode.Range(position.line, position.character - anchorMatch[2].length, position.line, position.character);
+                return await this.getAnchorCompletions(document, anchorMatch[1], range);
+            }
+
+            const pathMatch = textBefore.match(LINK_PATH_PATTERN);
+            if (pathMatch) {
+                const range = new vscode.Range(position.line, position.character - pathMatch[1].length, position.line, position.character);
+                return await this.getPathCompletions(document, range);
+            }
+
+            return [];
+        } catch (error) {
+            outputChannel.appendLine(`Error in link completion: ${error}`);
+            return [];
+        }
+    }
+
+    private async getPathCompletions(document: vscode.TextDocument, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        const docsetUri = await findDocsetForDocument(document.uri);
+        const rootUri = docsetUri
+            ? vscode.Uri.joinPath(docsetUri, '..')
+            : vscode.workspace.getWorkspaceFolder(document.uri)?.uri;
+        if (!rootUri) {
+            return [];
+        }
+
+        const files = await findFilesInFolder(rootUri, '**/*.md');
+        const documentDir = vscode.Uri.joinPath(document.uri, '..').path;
+
+        return files
+            // Snippets are included, not linked to
+            .filter(uri => uri.toString() !== document.uri.toString() && !uri.path.includes('/_snippets/'))
+            .map(uri => {
+                const relative = this.relativePath(documentDir, uri.path);
+                const item = new vscode.CompletionItem(relative, vscode.CompletionItemKind.File);
+                item.range = range;
+                item.detail = vscode.workspace.asRelativePath(uri);
+                // Nearby pages first
+                const depth = (relative.match(/\.\.\//g) ?? []).length + (relative.match(/\//g) ?? []).length;
+                item.sortText = `${String(depth).padStart(3, '0')}${relative}`;
+                return item;
+            });
+    }
+
+    private async getAnchorCompletions(document: vscode.TextDocument, path: string, range: vscode.Range): Promise<vscode.CompletionItem[]> {
+        let targetUri = document.uri;
+        if (path) {
+            const docsetUri = await findDocsetForDocument(document.uri);
+            targetUri = resolveDocsetPath(decodeURIComponent(path), document.uri, docsetUri && vscode.Uri.joinPath(docsetUri, '..'));
+        }
+
+        const model = await loadDocumentModel(targetUri);
+        if (!model) {
+            return [];
+        }
+
+        return model.headings.map((heading, index) => {
+            const item = new vscode.CompletionItem(heading.anchor, vscode.CompletionItemKind.Reference);
+            item.range = range;
+            item.detail = `${'#'.repeat(heading.level)} ${heading.text}`;
+            item.filterText = `${heading.anchor} ${heading.text}`;
+            // Keep document order
+            item.sortText = String(index).padStart(5, '0');
+            return item;
+        });
+    }
+
+    /**
+     * Posix relative path from a folder to a file, e.g. '../guide/intro.md'
+     */
+    private relativePath(fromDir: string, toPath: string): string {
+        const from = fromDir.split('/').filter(Boolean);
+        const to = toPath.split('/').filter(Boolean);
+
+        let common = 0;
+        while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+            common++;
+        }
+
+        return [...Array(from.length - common).fill('..'), ...to.slice(common)].join('/');
+    }
+}
@@ -0,0 +1,183 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache, loadDocumentModel, ParsedDocument, LinkOccurrence } from './documentModel';
+import { docsetNavigationCache, isFileInNavigation, resolveDocsetPath, DocsetNavigation } from './docsetNavigation';
+
+// Inline anchors, e.g. $$$my-anchor$$$
+const INLINE_ANCHOR_PATTERN = /\$\$\$([a-zA-Z0-9_-]+)\$\$\$/g;
+// Any URI scheme, including cross-repo links such as kibana://
+const EXTERNAL_LINK_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:/;
+
+interface ParsedLinkTarget {
+    path: string;
+    anchor?: string;
+}
+
+/**
+ * Validates internal links: the target .md file must exist, its anchor must match
+ * a heading in the target page, and the target should be part of the docset navigation.
+ */
+export class LinkDiagnosticProvider {
+    async provideDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const model = documentModelCache.get(document);
+        if (model.links.length === 0) {
+            return diagnostics;
+        }
+
+        let navigation: DocsetNavigation | undefined;
+        try {
+            navigation = await docsetNavigationCache.getForDocument(document.uri);
+        } catch (error) {
+            outputChannel.appendLine(`[LinkDiagnostics] Could not load docset navigation: ${error}`);
+        }
+
+        // Anchors per target file, so each target is only read once
+        const anchorCache = new Map<string, Promise<Set<string> | null>>();
+        anchorCache.set(document.uri.toString(), this.collectAnchors(model, document.uri, navigation));
+
+        for (const link of model.links) {
+            const target = this.parseTarget(link);
+            if (!target) {
+                continue;
+            }
+
+            const targetUri = target.path
+                ? resolveDocsetPath(target.path, document.uri, navigation?.rootUri)
+                : document.uri;
+
+            const key = targetUri.toString();
+            if (!anchorCache.has(key)) {
+                anchorCache.set(key, this.loadAnchors(targetUri, navigation));
+            }
+            const anchors = await anchorCache.get(key);
+
+            if (!anchors) {
+                const diagnostic = new vscode.Diagnostic(
+                    link.targetRange,
+                    `Link target '${target.path}' does not exist`,
+                    vscode.DiagnosticSeverity.Error
+                );
+                diagnostic.code = 'missing_link_target';
+                diagnostic.source = 'Elastic Docs Links';
+                diagnostics.push(diagnostic);
+                continue;
+            }
+
+            if (target.anchor && !anchors.has(target.anchor)) {
+                const page = target.path || 'this page';
+                const diagnostic = new vscode.Diagnostic(
+                    link.targetRange,
+                    `Anchor '#${target.anchor}' does not match any heading in ${page}`,
+                    vscode.DiagnosticSeverity.Error
+                );
+                diagnostic.code = 'missing_anchor';
+                diagnostic.source = 'Elastic Docs Links';
+                diagnostics.push(diagnostic);
+            }
+
+            if (target.path && navigation && navigation.entries.length > 0 && !isFileInNavigation(navigation, targetUri)) {
+                const diagnostic = new vscode.Diagnostic(
+                    link.targetRange,
+                    `'${target.path}' is not included in any toc.yml of this docset`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.code = 'not_in_toc';
+                diagnostic.source = 'Elastic Docs Links';
+                diagnostics.push(diagnostic);
+            }
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Split a link target into path and anchor. Returns null for links that aren't checked:
+     * external URLs, non-Markdown files, and targets built from substitutions.
+     */
+    private parseTarget(link: LinkOccurrence): ParsedLinkTarget | null {
+        if (link.isImage || EXTERNAL_LINK_PATTERN.test(link.target) || link.target.includes('{{')) {
+            return null;
+        }
+
+        const hashIndex = link.target.indexOf('#');
+        let path = hashIndex === -1 ? link.target : link.target.substring(0, hashIndex);
+        const anchor = hashIndex === -1 ? undefined : link.target.substring(hashIndex + 1);
+
+        try {
+            path = decodeURIComponent(path);
+        } catch {
+            // Keep the raw path if it isn't valid percent-encoding
+        }
+
+        if (path && !path.toLowerCase().endsWith('.md')) {
+            return null;
+        }
+        if (!path && !anchor) {
+            return null;
+        }
+
+        return { path, anchor: anchor || undefined };
+    }
+
+    /**
+     * Anchors of a target page, or null if it doesn't exist
+     */
+    private async loadAnchors(uri: vscode.Uri, navigation?: DocsetNavigation): Promise<Set<string> | null> {
+        const model = await loadDocumentModel(uri);
+        return model ? this.collectAnchors(model, uri, navigation) : null;
+    }
+
+    /**
+     * Heading anchors (generated or explicit), inline $$$anchors$$$,
+     * and headings of snippets pulled in with {include}
+     */
+    private async collectAnchors(
+        model: ParsedDocument,
+        uri: vscode.Uri,
+        navigation?: DocsetNavigation,
+        includeSnippets = true
+    ): Promise<Set<string>> {
+        const anchors = new Set<string>(model.headings.map(heading => heading.anchor));
+
+        for (const line of model.lines) {
+            for (const match of line.matchAll(INLINE_ANCHOR_PATTERN)) {
+                anchors.add(match[1]);
+            }
+        }
+
+        if (includeSnippets) {
+            for (const directive of model.directives) {
+                if (directive.name !== 'include' || !directive.argument) {
+                    continue;
+                }
+                const snippet = await loadDocumentModel(resolveDocsetPath(directive.argument.trim(), uri, navigation?.rootUri));
+                if (snippet) {
+                    const snippetAnchors = await this.collectAnchors(snippet, uri, navigation, false);
+                    snippetAnchors.forEach(anchor => anchors.add(anchor));
+                }
+            }
+        }
+
+        return anchors;
+    }
+}
@@ -0,0 +1,531 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { frontmatterSchema } from './frontmatterSchema';
+import { documentModelCache, isAppliesToFence, DirectiveBlock, ParsedDocument } from './documentModel';
+
+/**
+ * Original lines start..end (inclusive) and the lines they format to
+ */
+interface FormatUnit {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+// Innermost directives use three colons; each enclosing level adds one
+const MIN_COLONS = 3;
+
+const CLOSING_FENCE = /^:+\s*$/;
+const INDENTED_CODE = /^( {4}|\t)/;
+const TOP_LEVEL_KEY = /^([A-Za-z_][A-Za-z0-9_-]*)\s*:/;
+const YAML_KEY_VALUE = /^(\s*)([A-Za-z_][A-Za-z0-9_]*)\s*:(?:\s+(.*?))?\s*$/;
+const TABLE_ROW = /^(\s*)\|/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const APPLIES_TO_ROLE = /\{applies_to\}`([^`]+)`/g;
+
+const FRONTMATTER_KEY_ORDER = Object.keys(frontmatterSchema.properties);
+
+/**
+ * Normalize the spacing of an applies_to value, e.g. 'ga  9.1 ,preview 9.0' to 'ga 9.1, preview 9.0'
+ */
+function normalizeAppliesToValue(value: string): string {
+    return value.trim().replace(/\s+/g, ' ').replace(/\s*,\s*/g, ', ');
+}
+
+/**
+ * Normalize inline applies_to content, e.g. 'stack:ga 9.1,serverless:  preview'
+ */
+function normalizeAppliesToInline(content: string): string {
+    const normalized = normalizeAppliesToValue(content).replace(/\s*:\s*/g, ': ');
+    // Only whitespace may change
+    return normalized.replace(/\s/g, '') === content.replace(/\s/g, '') ? normalized : content;
+}
+
+/**
+ * Normalize a 'key: value' line of an applies_to block, keeping its indentation and any comment
+ */
+function normalizeAppliesToLine(line: string): string {
+    const [content, comment] = splitYamlComment(line);
+    const match = content.match(YAML_KEY_VALUE);
+    if (!match) {
+        return line;
+    }
+    const [, indent, key, value] = match;
+    const normalized = value ? `${indent}${key}: ${normalizeAppliesToValue(value)}` : `${indent}${key}:`;
+    return comment ? `${normalized} ${comment}` : normalized;
+}
+
+function splitYamlComment(line: string): [string, string | undefined] {
+    const match = line.match(/^(.*?)\s+(#.*)$/);
+    return match && !match[1].trimStart().startsWith('#') ? [match[1], match[2]] : [line, undefined];
+}
+
+/**
+ * Order top-level frontmatter keys as frontmatterSchema lists them. Comments stay with
+ * the key below them, unknown keys keep their order after the known ones, and the
+ * applies_to block gets its spacing normalized.
+ */
+function formatFrontmatter(lines: readonly string[]): string[] {
+    const leading: string[] = [];
+    const sections: { key: string; lines: string[] }[] = [];
+    let pending: string[] = [];
+
+    for (const line of lines) {
+        const keyMatch = line.match(TOP_LEVEL_KEY);
+        if (keyMatch) {
+            sections.push({ key: keyMatch[1], lines: [...pending, line] });
+            pending = [];
+        } else if (line.startsWith('#')) {
+            pending.push(line);
+        } else if (sections.length === 0) {
+            if (line.trim()) {
+                leading.push(line);
+            }
+        } else {
+            sections[sections.length - 1].lines.push(...pending, line);
+            pending = [];
+        }
+    }
+
+    const rank = (key: string): number => {
+        const index = FRONTMATTER_KEY_ORDER.indexOf(key);
+        return index === -1 ? FRONTMATTER_KEY_ORDER.length : index;
+    };
+    const sorted = sections
+        .map((section, index) => ({ ...section, index }))
+        .sort((a, b) => rank(a.key) - rank(b.key) || a.index - b.index);
+
+    const result = [...leading];
+    for (const section of sorted) {
+        const sectionLines = [...section.lines];
+        while (sectionLines.length > 1 && sectionLines[sectionLines.length - 1].trim() === '') {
+            sectionLines.pop();
+        }
+        result.push(...(section.key === 'applies_to' ? sectionLines.map(normalizeAppliesToLine) : sectionLines));
+    }
+    result.push(...pending);
+    return result;
+}
+
+/**
+ * Split a table row into cells. Pipes inside code spans, {{substitutions}}
+ * or escaped with a backslash don't separate cells.
+ */
+function splitTableRow(row: string): string[] {
+    const cells: string[] = [];
+    let text = row.trim();
+    if (text.startsWith('|')) {
+        text = text.substring(1);
+    }
+
+    let cell = '';
+    let inCode = false;
+    let inSubstitution = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\' && i + 1 < text.length) {
+            cell += char + text[++i];
+            continue;
+        }
+        if (char === '`') {
+            inCode = !inCode;
+        } else if (!inCode && text.startsWith('{{', i)) {
+            inSubstitution = true;
+        } else if (!inCode && inSubstitution && text.startsWith('}}', i)) {
+            inSubstitution = false;
+        } else if (char === '|' && !inCode && !inSubstitution) {
+            cells.push(cell.trim());
+            cell = '';
+            continue;
+        }
+        cell += char;
+    }
+    // A trailing pipe leaves nothing after it
+    if (cell.trim() || !text.trimEnd().endsWith('|')) {
+        cells.push(cell.trim());
+    }
+    return cells;
+}
+
+/**
+ * Pad every column of a pipe table to the same width
+ */
+function formatTable(rows: readonly string[]): string[] {
+    const indent = rows[0].match(TABLE_ROW)![1];
+    const cells = rows.map(splitTableRow);
+    const columnCount = Math.max(...cells.map(row => row.length));
+    const alignments = cells[1].map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : 'none';
+    });
+
+    const widths: number[] = [];
+    for (let column = 0; column < columnCount; column++) {
+        widths.push(Math.max(3, ...cells.map((row, index) => index === 1 ? 0 : (row[column] ?? '').length)));
+    }
+
+    return cells.map((row, index) => {
+        const padded = widths.map((width, column) => {
+            const alignment = alignments[column] ?? 'none';
+            if (index === 1) {
+                const dashes = '-'.repeat(width - (alignment === 'center' ? 2 : alignment === 'none' ? 0 : 1));
+                return alignment === 'center' ? `:${dashes}:`
+                    : alignment === 'left' ? `:${dashes}`
+                    : alignment === 'right' ? `${dashes}:`
+                    : dashes;
+            }
+            const cell = row[column] ?? '';
+            if (alignment === 'right') {
+                return cell.padStart(width);
+            }
+            if (alignment === 'center') {
+                const left = Math.floor((width - cell.length) / 2);
+                return (' '.repeat(left) + cell).padEnd(width);
+            }
+            return cell.padEnd(width);
+        });
+        return `${indent}| ${padded.join(' | ')} |`;
+    });
+}
+
+/**
+ * Formats Elastic Docs markdown: directive colon counts by nesting depth, blank lines
+ * around directives, aligned parameters, frontmatter key order, applies_to spacing
+ * and pipe tables. Formatting already formatted text changes nothing.
+ */
+class MarkdownFormatter {
+    private readonly lines: readonly string[];
+    private readonly inCodeFence: boolean[];
+    private readonly inIndentedCode: boolean[];
+    private readonly openings = new Map<number, DirectiveBlock>();
+    private readonly closings = new Map<number, DirectiveBlock>();
+    private readonly rewrites = new Map<number, string>();
+
+    /**
+     * @param renumberColons Whether to change colon counts. A range format leaves them alone,
+     * as it can't edit an opening fence without also editing its closing fence outside the range.
+     */
+    constructor(private readonly model: ParsedDocument, private readonly renumberColons = true) {
+        this.lines = model.lines;
+        this.inCodeFence = new Array<boolean>(this.lines.length).fill(false);
+        for (const fence of model.codeFences) {
+            const end = fence.closingLine ?? this.lines.length - 1;
+            for (let line = fence.openingLine; line <= end; line++) {
+                this.inCodeFence[line] = true;
+            }
+        }
+        this.inIndentedCode = this.findIndentedCode();
+
+        for (const block of model.directives) {
+            if (this.inCodeFence[block.openingRange.start.line]) {
+                continue;
+            }
+            this.openings.set(block.openingRange.start.line, block);
+            if (block.closingRange) {
+                this.closings.set(block.closingRange.start.line, block);
+            }
+        }
+    }
+
+    format(): FormatUnit[] {
+        this.rewriteDirectives();
+        this.rewriteAppliesTo();
+
+        const units: FormatUnit[] = [];
+        const frontmatter = this.model.frontmatter;
+        for (let line = 0; line < this.lines.length;) {
+            if (frontmatter && line === frontmatter.startLine) {
+                units.push({
+                    start: line,
+                    end: frontmatter.endLine,
+                    lines: [this.lines[line], ...formatFrontmatter(frontmatter.lines), this.lines[frontmatter.endLine]]
+                });
+                line = frontmatter.endLine + 1;
+                continue;
+            }
+
+            const tableEnd = this.findTableEnd(line);
+            if (tableEnd !== undefined) {
+                units.push({ start: line, end: tableEnd, lines: formatTable(this.lines.slice(line, tableEnd + 1)) });
+                line = tableEnd + 1;
+                continue;
+            }
+
+            units.push({ start: line, end: line, lines: [this.rewrites.get(line) ?? this.lines[line]] });
+            line++;
+        }
+
+        this.normalizeBlankLines(units);
+        return units;
+    }
+
+    /**
+     * Colon counts by nesting depth and aligned parameters
+     */
+    private rewriteDirectives(): void {
+        const blocks = [...this.openings.values()];
+
+        if (this.renumberColons && this.canRenumberColons(blocks)) {
+            const colons = new Map<DirectiveBlock, number>();
+            const count = (block: DirectiveBlock): number => {
+                let result = colons.get(block);
+                if (result === undefined) {
+                    result = Math.max(MIN_COLONS, ...block.children.map(child => count(child) + 1));
+                    colons.set(block, result);
+                }
+                return result;
+            };
+
+            for (const block of blocks) {
+                const fence = ':'.repeat(count(block));
+                const openingLine = block.openingRange.start.line;
+                this.rewrites.set(openingLine, this.lines[openingLine].replace(/^:+/, fence));
+                this.rewrites.set(block.closingRange!.start.line, fence);
+            }
+        }
+
+        for (const block of blocks) {
+            const withValues = block.parameters.filter(parameter => parameter.value?.trim());
+            const width = Math.max(0, ...withValues.map(parameter => parameter.name.length + 2));
+            for (const parameter of withValues) {
+                const name = `:${parameter.name}:`;
+                const value = parameter.name === 'applies_to'
+                    ? normalizeAppliesToInline(parameter.value!.trim())
+                    : parameter.value!.trim();
+                this.rewrites.set(parameter.range.start.line, `${name.padEnd(width)} ${value}`);
+            }
+        }
+    }
+
+    /**
+     * Renumbering is only safe when every block is well formed and closed, blocks don't
+     * cross code fence boundaries, and there are no stray closing fences a new count could match
+     */
+    private canRenumberColons(blocks: DirectiveBlock[]): boolean {
+        for (const block of blocks) {
+            if (!block.closingRange || block.isMalformed) {
+                return false;
+            }
+            if (this.inCodeFence[block.closingRange.start.line] || block.children.some(child => this.inCodeFence[child.openingRange.start.line])) {
+                return false;
+            }
+        }
+
+        for (let line = 0; line < this.lines.length; line++) {
+            if (!this.inCodeFence[line] && CLOSING_FENCE.test(this.lines[line]) && !this.closings.has(line)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Spacing in {applies_to} roles and section-level {applies_to} blocks
+     */
+    private rewriteAppliesTo(): void {
+        for (const fence of this.model.codeFences) {
+            if (!isAppliesToFence(fence) || fence.closingLine === undefined) {
+                continue;
+            }
+            for (let line = fence.openingLine + 1; line < fence.closingLine; line++) {
+                this.rewrites.set(line, normalizeAppliesToLine(this.lines[line]));
+            }
+        }
+
+        for (const role of this.model.roles) {
+            const line = role.range.start.line;
+            if (role.name !== 'applies_to' || this.inCodeFence[line] || this.rewrites.has(line)) {
+                continue;
+            }
+            this.rewrites.set(line, this.lines[line].replace(APPLIES_TO_ROLE, (_match, content: string) =>
+                `{applies_to}\`${normalizeAppliesToInline(content)}\``));
+        }
+    }
+
+    /**
+     * Last line of a pipe table starting at a line, if one does
+     */
+    private findTableEnd(start: number): number | undefined {
+        const indent = this.lines[start].match(TABLE_ROW)?.[1];
+        if (indent === undefined || this.inCodeFence[start] || start + 1 >= this.lines.length || !TABLE_DELIMITER.test(this.lines[start + 1])) {
+            return undefined;
+        }
+        if (start > 0 && this.lines[start - 1].match(TABLE_ROW) && !this.inCodeFence[start - 1]) {
+            return undefined;
+        }
+
+        let end = start + 1;
+        while (end + 1 < this.lines.length && !this.inCodeFence[end + 1] && this.lines[end + 1].match(TABLE_ROW)?.[1] === indent) {
+            end++;
+        }
+        return end;
+    }
+
+    /**
+     * One blank line before and after each directive (except right inside its parent),
+     * and no runs of blank lines outside code fences
+     */
+    private normalizeBlankLines(units: FormatUnit[]): void {
+        // Undefined until the first line that is kept
+        let previousBlank: boolean | undefined;
+
+        for (const unit of units) {
+            const single = unit.start === unit.end;
+
+            const inCode = this.inCodeFence[unit.start] || this.inIndentedCode[unit.start];
+            if (single && this.lines.length > 1 && !inCode && this.lines[unit.start].trim() === '' && previousBlank !== false) {
+                unit.lines = [];
+                continue;
+            }
+
+            const opening = single ? this.openings.get(unit.start) : undefined;
+            if (opening && previousBlank === false && !this.isFirstInParent(opening)) {
+                unit.lines = ['', ...unit.lines];
+            }
+
+            const closing = single ? this.closings.get(unit.start) : undefined;
+            const next = unit.end + 1;
+            if (closing && next < this.lines.length && this.lines[next].trim() !== '' && !(closing.parent && this.closings.get(next) === closing.parent)) {
+                unit.lines = [...unit.lines, ''];
+            }
+
+            if (unit.lines.length > 0) {
+                previousBlank = unit.lines[unit.lines.length - 1].trim() === '';
+            }
+        }
+    }
+
+    /**
+     * Lines of indented (four-space) code blocks, including the blank lines inside them.
+     * Such a block follows a blank line, as it can't interrupt a paragraph.
+     */
+    private findIndentedCode(): boolean[] {
+        const result = new Array<boolean>(this.lines.length).fill(false);
+        const isBlank = (line: number): boolean => this.lines[line].trim() === '';
+        const isCode = (line: number): boolean => !this.inCodeFence[line] && !isBlank(line) && INDENTED_CODE.test(this.lines[line]);
+
+        for (let line = 0; line < this.lines.length; line++) {
+            if (!isCode(line) || (line > 0 && !isBlank(line - 1))) {
+                continue;
+            }
+            let end = line;
+            for (let next = line + 1; next < this.lines.length && (isCode(next) || (isBlank(next) && !this.inCodeFence[next])); next++) {
+                if (isCode(next)) {
+                    end = next;
+                }
+            }
+            for (let codeLine = line; codeLine <= end; codeLine++) {
+                result[codeLine] = true;
+            }
+            line = end;
+        }
+        return result;
+    }
+
+    /**
+     * The block starts right after its parent's opening line and parameters
+     */
+    private isFirstInParent(block: DirectiveBlock): boolean {
+        const parent = block.parent;
+        if (!parent) {
+            return false;
+        }
+        let headerEnd = parent.openingRange.start.line;
+        while (parent.parameters.some(parameter => parameter.range.start.line === headerEnd + 1)) {
+            headerEnd++;
+        }
+        return block.openingRange.start.line === headerEnd + 1;
+    }
+}
+
+/**
+ * Edits that format a document, optionally only the parts touching a range of lines
+ */
+export function getFormattingEdits(model: ParsedDocument, range?: vscode.Range): vscode.TextEdit[] {
+    const lines = model.lines;
+    const lastLine = lines.length - 1;
+    const changed = new MarkdownFormatter(model, !range).format().filter(unit =>
+        (unit.lines.length !== unit.end - unit.start + 1 || unit.lines.some((line, index) => line !== lines[unit.start + index])) &&
+        (!range || (unit.start <= range.end.line && unit.end >= range.start.line)));
+
+    // Merge adjacent units so edits never touch each other
+    const merged: FormatUnit[] = [];
+    for (const unit of changed) {
+        const previous = merged[merged.length - 1];
+        if (previous && previous.end + 1 === unit.start) {
+            previous.end = unit.end;
+            previous.lines.push(...unit.lines);
+        } else {
+            merged.push({ ...unit, lines: [...unit.lines] });
+        }
+    }
+
+    return merged.map(unit => {
+        if (unit.end < lastLine) {
+            return vscode.TextEdit.replace(
+                new vscode.Range(unit.start, 0, unit.end + 1, 0),
+                unit.lines.map(line => `${line}\n`).join('')
+            );
+        }
+        // The unit ends the document, so there is no line break after it to replace
+        if (unit.start > 0) {
+            return vscode.TextEdit.replace(
+                new vscode.Range(unit.start - 1, lines[unit.start - 1].length, unit.end, lines[unit.end].length),
+                unit.lines.map(line => `\n${line}`).join('')
+            );
+        }
+        return vscode.TextEdit.replace(new vscode.Range(0, 0, unit.end, lines[unit.end].length), unit.lines.join('\n'));
+    });
+}
+
+/**
+ * Formats whole documents or selected lines of Elastic Docs markdown
+ */
+export class MarkdownFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        _options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        try {
+            return getFormattingEdits(documentModelCache.get(document));
+        } catch (err) {
+            outputChannel.appendLine(`Error formatting ${document.fileName}: ${err}`);
+            return [];
+        }
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        _options: vscode.FormattingOptions,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        try {
+            return getFormattingEdits(documentModelCache.get(document), range);
+        } catch (err) {
+            outputChannel.appendLine(`Error formatting ${document.fileName}: ${err}`);
+            return [];
+        }
+    }
+}
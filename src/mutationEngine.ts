@@ -89,6 +89,14 @@ export function applyMutationChain(value: string, operators: string[]): string[]
     return results;
 }
 
+/**
+ * Whether version mutations can read a value; anything else they return unchanged
+ * @param value The input value
+ */
+export function isVersionValue(value: string): boolean {
+    return parseVersion(value) !== null;
+}
+
 // Text case mutations
 
 function toLowerCase(value: string): string {
@@ -97,6 +97,9 @@ export const MUTATION_OPERATORS: Record<string, MutationOperator> = {
     }
 };
 
+// Operators that read their input as a version, e.g. 9.1.5
+export const VERSION_MUTATION_OPERATORS: readonly string[] = ['M', 'M.x', 'M.M', 'M+1', 'M.M+1'];
+
 /**
  * Parses a substitution string to extract the variable name and mutation chain
  * @param substitutionText The text inside {{ }}, e.g., "version | lc | trim"
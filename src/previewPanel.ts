@@ -0,0 +1,370 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache } from './documentModel';
+import { findDocsetForDocument, resolveDocsetPath } from './docsetNavigation';
+import { getSubstitutions } from './substitutions';
+import { renderPreviewBody } from './previewRenderer';
+
+export const PREVIEW_VIEW_TYPE = 'elasticDocsPreview';
+
+// Re-render at most this often while typing
+const UPDATE_DELAY_MS = 300;
+
+// Scroll events caused by our own scrolling are ignored for this long
+const SCROLL_SYNC_QUIET_MS = 300;
+
+/**
+ * Webview panel that renders the active Markdown page the way docs-builder would,
+ * and keeps its scroll position in sync with the editor.
+ * There is a single preview; it follows the active Markdown editor.
+ */
+export class PreviewPanelManager implements vscode.Disposable {
+    private panel?: vscode.WebviewPanel;
+    private document?: vscode.TextDocument;
+    private rootUri?: vscode.Uri;
+    /** Page whose HTML the webview holds; later renders of it only swap the body */
+    private renderedUri?: string;
+    private updateTimeout?: NodeJS.Timeout;
+    private ignoreEditorScrollUntil = 0;
+
+    /**
+     * Open the preview for a document, or switch the open preview to it
+     */
+    async show(document: vscode.TextDocument): Promise<void> {
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                PREVIEW_VIEW_TYPE,
+                'Elastic Docs Preview',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                {
+                    enableScripts: true,
+                    localResourceRoots: this.getLocalResourceRoots(document)
+                }
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.document = undefined;
+                this.renderedUri = undefined;
+            });
+            this.panel.webview.onDidReceiveMessage(message => this.onMessage(message));
+        } else {
+            this.panel.reveal(undefined, true);
+        }
+
+        await this.setDocument(document);
+    }
+
+    /**
+     * Re-render when the previewed document is edited
+     */
+    onDocumentChanged(document: vscode.TextDocument): void {
+        if (!this.panel || document.uri.toString() !== this.document?.uri.toString()) {
+            return;
+        }
+        if (this.updateTimeout) {
+            clearTimeout(this.updateTimeout);
+        }
+        this.updateTimeout = setTimeout(() => this.update(), UPDATE_DELAY_MS);
+    }
+
+    /**
+     * Follow the active editor to other Markdown pages
+     */
+    onActiveEditorChanged(editor: vscode.TextEditor | undefined): void {
+        if (!this.panel || !editor || editor.document.languageId !== 'markdown' || editor.document.uri.scheme === 'untitled') {
+            return;
+        }
+        if (editor.document.uri.toString() !== this.document?.uri.toString()) {
+            this.setDocument(editor.document).catch(err => outputChannel.appendLine(`[Preview] Error switching page: ${err}`));
+        }
+    }
+
+    /**
+     * Scroll the preview to the first line visible in the editor
+     */
+    onEditorScrolled(editor: vscode.TextEditor): void {
+        if (!this.panel || editor.document.uri.toString() !== this.document?.uri.toString()) {
+            return;
+        }
+        if (Date.now() < this.ignoreEditorScrollUntil || editor.visibleRanges.length === 0) {
+            return;
+        }
+        this.panel.webview.postMessage({ type: 'scrollToLine', line: editor.visibleRanges[0].start.line });
+    }
+
+    /**
+     * Re-render without waiting, e.g. after substitutions changed
+     */
+    refresh(): void {
+        if (this.panel) {
+            this.update();
+        }
+    }
+
+    dispose(): void {
+        if (this.updateTimeout) {
+            clearTimeout(this.updateTimeout);
+        }
+        this.panel?.dispose();
+    }
+
+    private async setDocument(document: vscode.TextDocument): Promise<void> {
+        this.document = document;
+        const docsetUri = await findDocsetForDocument(document.uri);
+        this.rootUri = docsetUri && vscode.Uri.joinPath(docsetUri, '..');
+        this.update();
+    }
+
+    private update(): void {
+        const panel = this.panel;
+        const document = this.document;
+        if (!panel || !document) {
+            return;
+        }
+
+        try {
+            const model = documentModelCache.get(document);
+            const body = renderPreviewBody(model, {
+                substitutions: getSubstitutions(document.uri),
+                resolveResource: path => this.resolveResource(panel.webview, document.uri, path)
+            });
+
+            // Swapping the body keeps the scroll position while typing
+            if (this.renderedUri === document.uri.toString()) {
+                panel.webview.postMessage({ type: 'update', body });
+                return;
+            }
+
+            const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === document.uri.toString());
+            const initialLine = editor?.visibleRanges[0]?.start.line ?? 0;
+            panel.title = `Preview ${document.uri.path.split('/').pop() ?? ''}`;
+            panel.webview.html = this.getHtml(panel.webview, body, initialLine);
+            this.renderedUri = document.uri.toString();
+        } catch (err) {
+            outputChannel.appendLine(`[Preview] Error rendering ${document.uri.toString()}: ${err}`);
+        }
+    }
+
+    private resolveResource(webview: vscode.Webview, documentUri: vscode.Uri, path: string): string {
+        if (/^[a-z][a-z0-9+.-]*:/i.test(path)) {
+            return path;
+        }
+        return webview.asWebviewUri(resolveDocsetPath(path, documentUri, this.rootUri)).toString();
+    }
+
+    private getLocalResourceRoots(document: vscode.TextDocument): vscode.Uri[] {
+        const folders = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri);
+        return folders.length > 0 ? folders : [vscode.Uri.joinPath(document.uri, '..')];
+    }
+
+    private onMessage(message: { type: string; line?: number; href?: string }): void {
+        const document = this.document;
+        if (!document) {
+            return;
+        }
+
+        switch (message.type) {
+            case 'revealLine': {
+                const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === document.uri.toString());
+                if (editor && typeof message.line === 'number') {
+                    this.ignoreEditorScrollUntil = Date.now() + SCROLL_SYNC_QUIET_MS;
+                    const position = new vscode.Position(message.line, 0);
+                    editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.AtTop);
+                }
+                break;
+            }
+            case 'openLink': {
+                // Links to other pages open in the editor; the preview follows
+                const [path] = (message.href ?? '').split('#');
+                if (path) {
+                    vscode.commands.executeCommand('vscode.open', resolveDocsetPath(path, document.uri, this.rootUri));
+                }
+                break;
+            }
+        }
+    }
+
+    private getHtml(webview: vscode.Webview, body: string, initialLine: number): string {
+        const nonce = getNonce();
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style nonce="${nonce}">${PREVIEW_STYLES}</style>
+</head>
+<body data-initial-line="${initialLine}">
+<main class="markdown-body">
+${body}
+</main>
+<script nonce="${nonce}">${PREVIEW_SCRIPT}</script>
+</body>
+</html>`;
+    }
+}
+
+function getNonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+    }
+    return nonce;
+}
+
+// Colors follow the docs-builder (EUI) palette, on top of the editor theme
+const PREVIEW_STYLES = `
+body { font-family: var(--vscode-font-family); font-size: 14px; line-height: 1.6; color: var(--vscode-editor-foreground); background: var(--vscode-editor-background); padding: 0 24px 48px; }
+.markdown-body { max-width: 860px; }
+a { color: var(--vscode-textLink-foreground); }
+code { font-family: var(--vscode-editor-font-family); font-size: 0.9em; background: var(--vscode-textCodeBlock-background); padding: 1px 4px; border-radius: 4px; }
+pre { background: var(--vscode-textCodeBlock-background); padding: 12px 16px; border-radius: 6px; overflow-x: auto; }
+pre code { background: none; padding: 0; }
+table { border-collapse: collapse; margin: 16px 0; }
+th, td { border: 1px solid var(--vscode-panel-border, #d3dae6); padding: 6px 12px; }
+.align-left { text-align: left; }
+.align-center { text-align: center; }
+.align-right { text-align: right; }
+blockquote { margin: 16px 0; padding: 0 16px; border-left: 4px solid var(--vscode-textBlockQuote-border); color: var(--vscode-descriptionForeground); }
+kbd { font-family: var(--vscode-editor-font-family); font-size: 0.85em; border: 1px solid var(--vscode-panel-border, #d3dae6); border-bottom-width: 2px; border-radius: 4px; padding: 1px 5px; }
+img { max-width: 100%; }
+.unresolved { color: var(--vscode-errorForeground); text-decoration: underline wavy; }
+.icon { font-family: var(--vscode-editor-font-family); font-size: 0.85em; border: 1px dashed var(--vscode-panel-border, #d3dae6); border-radius: 4px; padding: 0 4px; }
+.applies-badge { display: inline-block; font-size: 0.8em; line-height: 1.4; margin: 0 4px; padding: 1px 8px; border-radius: 12px; border: 1px solid #0b64dd; color: #0b64dd; background: rgba(11, 100, 221, 0.08); vertical-align: middle; }
+.applies-badge.planned { border-style: dashed; color: var(--vscode-descriptionForeground); border-color: var(--vscode-descriptionForeground); background: none; }
+.applies-to.section, .applies-to.page { margin: 8px 0 16px; }
+.admonition { margin: 16px 0; border-radius: 6px; border: 1px solid; border-left-width: 4px; }
+.admonition-title { font-weight: 600; padding: 8px 16px 0; }
+.admonition-content { padding: 0 16px; }
+.admonition.note { border-color: #0b64dd; background: rgba(11, 100, 221, 0.08); }
+.admonition.tip { border-color: #008a5e; background: rgba(0, 138, 94, 0.08); }
+.admonition.important { border-color: #7b61ff; background: rgba(123, 97, 255, 0.08); }
+.admonition.warning { border-color: #c61e25; background: rgba(198, 30, 37, 0.08); }
+.admonition.plain, .admonition.agent-skill { border-color: var(--vscode-panel-border, #d3dae6); }
+.dropdown { margin: 16px 0; border: 1px solid var(--vscode-panel-border, #d3dae6); border-radius: 6px; }
+.dropdown summary { cursor: pointer; font-weight: 600; padding: 8px 16px; }
+.dropdown-content { padding: 0 16px; }
+.tab-set { margin: 16px 0; border: 1px solid var(--vscode-panel-border, #d3dae6); border-radius: 6px; }
+.tab-labels { display: flex; flex-wrap: wrap; border-bottom: 1px solid var(--vscode-panel-border, #d3dae6); }
+.tab-label { font: inherit; color: inherit; background: none; border: none; border-bottom: 2px solid transparent; padding: 8px 16px; cursor: pointer; }
+.tab-label.active { border-bottom-color: #0b64dd; font-weight: 600; }
+.tab-panel { display: none; padding: 0 16px; }
+.tab-panel.active { display: block; }
+.stepper { list-style: none; counter-reset: step; padding-left: 0; }
+.step { counter-increment: step; position: relative; padding-left: 48px; margin-bottom: 16px; border-left: 2px solid var(--vscode-panel-border, #d3dae6); margin-left: 15px; }
+.step::before { content: counter(step); position: absolute; left: -16px; top: 0; width: 30px; height: 30px; border-radius: 50%; background: #0b64dd; color: #fff; text-align: center; line-height: 30px; font-weight: 600; }
+.step-title { font-size: 1.2em; font-weight: 600; padding-top: 2px; }
+.button-wrapper { margin: 16px 0; }
+.button-group { display: flex; gap: 8px; margin: 16px 0; }
+.button-group.justify-center { justify-content: center; }
+.button-group.justify-end { justify-content: flex-end; }
+.button-group .button-wrapper { margin: 0; }
+.button { display: inline-block; padding: 6px 16px; border-radius: 6px; font-weight: 600; text-decoration: none; }
+.button.primary { background: #0b64dd; color: #fff; }
+.button.secondary { border: 1px solid #0b64dd; color: #0b64dd; }
+.image { margin: 16px 0; }
+.image.screenshot img { border: 1px solid var(--vscode-panel-border, #d3dae6); border-radius: 6px; box-shadow: 0 2px 6px rgba(0, 0, 0, 0.15); }
+.image figcaption { font-size: 0.9em; color: var(--vscode-descriptionForeground); }
+.carousel { display: flex; gap: 16px; overflow-x: auto; }
+.include, .directive, .diagram, .math { margin: 16px 0; padding: 8px 16px; border: 1px dashed var(--vscode-panel-border, #d3dae6); border-radius: 6px; }
+.directive-label { font-size: 0.85em; color: var(--vscode-descriptionForeground); }
+`;
+
+// Tabs, links and two-way scroll sync inside the webview
+const PREVIEW_SCRIPT = `
+(function () {
+    const vscode = acquireVsCodeApi();
+    let ignoreScrollUntil = 0;
+
+    function blocks() {
+        return Array.from(document.querySelectorAll('[data-line]')).filter(el => el.offsetParent !== null);
+    }
+
+    function scrollToLine(line) {
+        let target;
+        for (const el of blocks()) {
+            if (Number(el.dataset.line) > line) {
+                break;
+            }
+            target = el;
+        }
+        ignoreScrollUntil = Date.now() + ${SCROLL_SYNC_QUIET_MS};
+        window.scrollTo(0, target ? target.getBoundingClientRect().top + window.scrollY : 0);
+    }
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'scrollToLine') {
+            scrollToLine(message.line);
+        } else if (message.type === 'update') {
+            const scrollY = window.scrollY;
+            document.querySelector('main').innerHTML = message.body;
+            ignoreScrollUntil = Date.now() + ${SCROLL_SYNC_QUIET_MS};
+            window.scrollTo(0, scrollY);
+        }
+    });
+
+    scrollToLine(Number(document.body.dataset.initialLine));
+
+    let scrollTimeout;
+    window.addEventListener('scroll', () => {
+        if (Date.now() < ignoreScrollUntil) {
+            return;
+        }
+        clearTimeout(scrollTimeout);
+        scrollTimeout = setTimeout(() => {
+            const first = blocks().find(el => el.getBoundingClientRect().bottom > 0);
+            if (first) {
+                vscode.postMessage({ type: 'revealLine', line: Number(first.dataset.line) });
+            }
+        }, 50);
+    });
+
+    document.addEventListener('click', event => {
+        const label = event.target.closest('.tab-label');
+        if (label) {
+            const tabSet = label.closest('.tab-set');
+            for (const el of tabSet.querySelectorAll(':scope > .tab-labels > .tab-label, :scope > .tab-panel')) {
+                el.classList.toggle('active', el.dataset.tab === label.dataset.tab);
+            }
+            return;
+        }
+
+        const link = event.target.closest('a[href]');
+        if (!link) {
+            return;
+        }
+        const href = link.getAttribute('href');
+        if (href.startsWith('#')) {
+            event.preventDefault();
+            const heading = document.getElementById(href.substring(1));
+            if (heading) {
+                heading.scrollIntoView();
+            }
+        } else if (!/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+            event.preventDefault();
+            vscode.postMessage({ type: 'openLink', href });
+        }
+    });
+}());
+`;
@@ -0,0 +1,485 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { ParsedDocument, DirectiveBlock, CodeFence, isAppliesToFence } from './documentModel';
+import { replaceSubstitutions } from './substitutions';
+import {
+    AppliesToLine,
+    getAppliesToBadges,
+    formatAppliesToBadge,
+    parseAppliesToLines,
+    parseAppliesToInline,
+    getFrontmatterAppliesToLines
+} from './appliesToBadges';
+
+/**
+ * Renders a parsed page to HTML for the preview panel.
+ *
+ * This is not a full CommonMark implementation: it covers the Markdown docs pages
+ * actually use (headings, paragraphs, lists, tables, quotes, code) plus the
+ * directives and roles docs-builder adds. Every top-level block carries a
+ * data-line attribute with its source line so the preview can scroll with the editor.
+ */
+
+export interface PreviewRenderContext {
+    /** Substitution values for the page */
+    substitutions: Record<string, string>;
+    /** URL the webview can load for a path used by the page, e.g. an image */
+    resolveResource(path: string): string;
+}
+
+const ADMONITIONS = ['note', 'warning', 'tip', 'important', 'admonition'];
+
+const ROLE = /\{([a-zA-Z][a-zA-Z0-9_-]*)\}`([^`]+)`/g;
+const INLINE_CODE = /(`+)(.+?)\1/g;
+const IMAGE = /!\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"([^"]*)")?\s*\)/g;
+const LINK = /\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/g;
+const SUBSTITUTION = /\{\{([^}]+)\}\}/g;
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+// CommonMark replaces NUL with U+FFFD; here that also keeps NUL free for placeholders
+const NUL = /\u0000/g;
+// Placeholders nest at most a few levels deep (code inside link text)
+const MAX_PLACEHOLDER_PASSES = 8;
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const EXPLICIT_ANCHOR = /\s*\[([a-zA-Z0-9_-]+)\]\s*$/;
+const THEMATIC_BREAK = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the body of a page
+ */
+export function renderPreviewBody(model: ParsedDocument, context: PreviewRenderContext): string {
+    return new PreviewRenderer(model, context).render();
+}
+
+class PreviewRenderer {
+    private readonly lines: readonly string[];
+    private readonly directivesByLine = new Map<number, DirectiveBlock>();
+    private readonly fencesByLine = new Map<number, CodeFence>();
+    private readonly parameterLines = new Set<number>();
+    private readonly substitutions: Record<string, string>;
+
+    constructor(private readonly model: ParsedDocument, private readonly context: PreviewRenderContext) {
+        this.lines = model.lines;
+        this.substitutions = Object.fromEntries(
+            Object.entries(context.substitutions).map(([key, value]) => [key, value.replace(NUL, '\uFFFD')]));
+        for (const block of model.directives) {
+            this.directivesByLine.set(block.openingRange.start.line, block);
+            for (const parameter of block.parameters) {
+                this.parameterLines.add(parameter.range.start.line);
+            }
+        }
+        for (const fence of model.codeFences) {
+            this.fencesByLine.set(fence.openingLine, fence);
+        }
+    }
+
+    render(): string {
+        const frontmatter = this.model.frontmatter;
+        if (!frontmatter) {
+            return this.renderLines(0, this.lines.length);
+        }
+
+        // Page-level badges go at the top, as on the published page
+        const appliesTo = getFrontmatterAppliesToLines(frontmatter);
+        const badges = appliesTo.length > 0
+            ? `<div class="applies-to page" data-line="${frontmatter.startLine}">${this.renderBadges(appliesTo)}</div>\n`
+            : '';
+        return badges + this.renderLines(frontmatter.endLine + 1, this.lines.length);
+    }
+
+    /**
+     * Render the lines in [start, end) as a sequence of blocks
+     */
+    private renderLines(start: number, end: number): string {
+        const html: string[] = [];
+        let line = start;
+
+        while (line < end) {
+            const text = this.lines[line];
+
+            const block = this.directivesByLine.get(line);
+            if (block) {
+                const blockEnd = Math.min(block.closingRange?.start.line ?? end, end);
+                html.push(this.renderDirective(block, line + 1, blockEnd));
+                line = blockEnd + 1;
+                continue;
+            }
+
+            const fence = this.fencesByLine.get(line);
+            if (fence) {
+                const fenceEnd = Math.min(fence.closingLine ?? end, end);
+                html.push(this.renderCodeFence(fence, line + 1, fenceEnd));
+                line = fenceEnd + 1;
+                continue;
+            }
+
+            if (this.parameterLines.has(line) || text.trim() === '') {
+                line++;
+                continue;
+            }
+
+            const heading = text.match(HEADING);
+            if (heading) {
+                const explicit = heading[2].match(EXPLICIT_ANCHOR);
+                const headingText = explicit ? heading[2].substring(0, explicit.index).trim() : heading[2];
+                const anchor = this.model.headings.find(h => h.line === line)?.anchor;
+                const level = heading[1].length;
+                html.push(`<h${level}${anchor ? ` id="${escapeHtml(anchor)}"` : ''} data-line="${line}">${this.renderInline(headingText)}</h${level}>`);
+                line++;
+                continue;
+            }
+
+            if (THEMATIC_BREAK.test(text)) {
+                html.push(`<hr data-line="${line}">`);
+                line++;
+                continue;
+            }
+
+            if (text.trimStart().startsWith('>')) {
+                const quoteStart = line;
+                const quoted: string[] = [];
+                while (line < end && this.lines[line].trimStart().startsWith('>')) {
+                    quoted.push(this.lines[line].trimStart().replace(/^>\s?/, ''));
+                    line++;
+                }
+                const paragraphs = quoted.join('\n').split(/\n\s*\n/).map(p => `<p>${this.renderInline(p)}</p>`);
+                html.push(`<blockquote data-line="${quoteStart}">${paragraphs.join('')}</blockquote>`);
+                continue;
+            }
+
+            if (text.includes('|') && line + 1 < end && TABLE_SEPARATOR.test(this.lines[line + 1]) && this.lines[line + 1].includes('-')) {
+                line = this.renderTable(line, end, html);
+                continue;
+            }
+
+            if (LIST_ITEM.test(text)) {
+                line = this.renderList(line, end, html);
+                continue;
+            }
+
+            // Paragraph: everything up to the next blank line or block start
+            const paragraphStart = line;
+            const paragraph: string[] = [];
+            while (line < end && this.lines[line].trim() !== '' && !this.startsBlock(line, line === paragraphStart)) {
+                paragraph.push(this.lines[line].trim());
+                line++;
+            }
+            html.push(`<p data-line="${paragraphStart}">${this.renderInline(paragraph.join('\n')).replace(/\n/g, ' ')}</p>`);
+        }
+
+        return html.join('\n');
+    }
+
+    private startsBlock(line: number, isFirst: boolean): boolean {
+        const text = this.lines[line];
+        return !isFirst && (
+            this.directivesByLine.has(line) ||
+            this.fencesByLine.has(line) ||
+            this.parameterLines.has(line) ||
+            HEADING.test(text) ||
+            THEMATIC_BREAK.test(text) ||
+            LIST_ITEM.test(text) ||
+            text.trimStart().startsWith('>')
+        );
+    }
+
+    private renderTable(start: number, end: number, html: string[]): number {
+        const splitRow = (row: string): string[] => row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+        const header = splitRow(this.lines[start]);
+        const alignments = splitRow(this.lines[start + 1]).map(cell =>
+            cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : '');
+        // Inline styles are blocked by the preview's content security policy, so alignment is a class
+        const cellAttributes = (index: number): string => alignments[index] ? ` class="align-${alignments[index]}"` : '';
+
+        const rows: string[] = [];
+        let line = start + 2;
+        while (line < end && this.lines[line].includes('|') && this.lines[line].trim() !== '') {
+            const cells = splitRow(this.lines[line]);
+            rows.push(`<tr data-line="${line}">${header.map((_, i) => `<td${cellAttributes(i)}>${this.renderInline(cells[i] ?? '')}</td>`).join('')}</tr>`);
+            line++;
+        }
+
+        html.push(
+            `<table data-line="${start}"><thead><tr>${header.map((cell, i) => `<th${cellAttributes(i)}>${this.renderInline(cell)}</th>`).join('')}</tr></thead>` +
+            `<tbody>${rows.join('')}</tbody></table>`
+        );
+        return line;
+    }
+
+    /**
+     * Render consecutive list items, nesting by indentation
+     */
+    private renderList(start: number, end: number, html: string[]): number {
+        const stack: { indent: number; tag: 'ul' | 'ol' }[] = [];
+        const parts: string[] = [];
+        let line = start;
+
+        while (line < end) {
+            const text = this.lines[line];
+            if (text.trim() === '') {
+                // A blank line ends the list unless the list goes on after it
+                const next = this.lines[line + 1];
+                if (line + 1 < end && next !== undefined && (LIST_ITEM.test(next) || /^\s{2,}\S/.test(next)) && !this.directivesByLine.has(line + 1)) {
+                    line++;
+                    continue;
+                }
+                break;
+            }
+
+            const item = text.match(LIST_ITEM);
+            if (!item) {
+                if (!/^\s/.test(text) || this.directivesByLine.has(line) || this.fencesByLine.has(line)) {
+                    break;
+                }
+                // Continuation of the previous item
+                parts.push(` ${this.renderInline(text.trim())}`);
+                line++;
+                continue;
+            }
+
+            const indent = item[1].length;
+            const tag = /^\d/.test(item[2]) ? 'ol' : 'ul';
+            while (stack.length > 0 && indent < stack[stack.length - 1].indent) {
+                parts.push(`</li></${stack.pop()!.tag}>`);
+            }
+            // Switching between bullets and numbers at the same level starts a new list
+            if (stack.length > 0 && indent === stack[stack.length - 1].indent && tag !== stack[stack.length - 1].tag) {
+                parts.push(`</li></${stack.pop()!.tag}>`);
+            }
+            if (stack.length === 0 || indent > stack[stack.length - 1].indent) {
+                stack.push({ indent, tag });
+                parts.push(`<${tag}${stack.length === 1 ? ` data-line="${line}"` : ''}>`);
+            } else {
+                parts.push('</li>');
+            }
+            parts.push(`<li data-line="${line}">${this.renderInline(item[3])}`);
+            line++;
+        }
+
+        while (stack.length > 0) {
+            parts.push(`</li></${stack.pop()!.tag}>`);
+        }
+        html.push(parts.join(''));
+        return line;
+    }
+
+    private renderCodeFence(fence: CodeFence, start: number, end: number): string {
+        const content = this.lines.slice(start, end);
+
+        if (isAppliesToFence(fence)) {
+            return `<div class="applies-to section" data-line="${fence.openingLine}">${this.renderBadges(parseAppliesToLines(content))}</div>`;
+        }
+
+        // Substitutions only apply in code blocks that opt in
+        const info = fence.info.replace(/\{[^}]*\}/g, '').trim();
+        const language = info.split(/\s+/)[0] ?? '';
+        const code = /\bsubs=true\b/.test(fence.info)
+            ? replaceSubstitutions(content.join('\n'), this.substitutions)
+            : content.join('\n');
+        return `<pre data-line="${fence.openingLine}"${language ? ` data-lang="${escapeHtml(language)}"` : ''}><code>${escapeHtml(code)}</code></pre>`;
+    }
+
+    private renderDirective(block: DirectiveBlock, start: number, end: number): string {
+        const dataLine = `data-line="${block.openingRange.start.line}"`;
+        const argument = block.argument?.trim() ?? '';
+        const parameter = (name: string): string | undefined => block.parameters.find(p => p.name === name)?.value?.trim();
+        const body = (): string => this.renderLines(start, end);
+
+        if (ADMONITIONS.includes(block.name)) {
+            const title = argument || block.name.charAt(0).toUpperCase() + block.name.slice(1);
+            const appliesTo = parameter('applies_to');
+            return `<div class="admonition ${block.name === 'admonition' ? 'plain' : block.name}" ${dataLine}>` +
+                `<div class="admonition-title">${this.renderInline(title)}${appliesTo ? this.renderAppliesTo(appliesTo) : ''}</div>` +
+                `<div class="admonition-content">${body()}</div></div>`;
+        }
+
+        switch (block.name) {
+            case 'dropdown': {
+                const appliesTo = parameter('applies_to');
+                return `<details class="dropdown" ${dataLine}${block.parameters.some(p => p.name === 'open') ? ' open' : ''}>` +
+                    `<summary>${this.renderInline(argument || 'Dropdown')}${appliesTo ? this.renderAppliesTo(appliesTo) : ''}</summary>` +
+                    `<div class="dropdown-content">${body()}</div></details>`;
+            }
+
+            case 'tab-set':
+            case 'applies-switch': {
+                const itemName = block.name === 'tab-set' ? 'tab-item' : 'applies-item';
+                const items = block.children.filter(child => child.name === itemName);
+                const labels = items.map((item, i) => {
+                    const label = block.name === 'tab-set'
+                        ? this.renderInline(item.argument?.trim() || `Tab ${i + 1}`)
+                        : this.renderAppliesTo(item.argument?.trim() ?? '');
+                    return `<button class="tab-label${i === 0 ? ' active' : ''}" data-tab="${i}">${label}</button>`;
+                });
+                const panels = items.map((item, i) => {
+                    const itemEnd = Math.min(item.closingRange?.start.line ?? end, end);
+                    return `<div class="tab-panel${i === 0 ? ' active' : ''}" data-tab="${i}" data-line="${item.openingRange.start.line}">` +
+                        `${this.renderLines(item.openingRange.start.line + 1, itemEnd)}</div>`;
+                });
+                return `<div class="tab-set${block.name === 'applies-switch' ? ' applies-switch' : ''}" ${dataLine}><div class="tab-labels">${labels.join('')}</div>${panels.join('')}</div>`;
+            }
+
+            case 'stepper':
+                return `<ol class="stepper" ${dataLine}>${block.children.filter(child => child.name === 'step').map(step => {
+                    const stepEnd = Math.min(step.closingRange?.start.line ?? end, end);
+                    return `<li class="step" data-line="${step.openingRange.start.line}">` +
+                        `<div class="step-title">${this.renderInline(step.argument?.trim() ?? '')}</div>` +
+                        `${this.renderLines(step.openingRange.start.line + 1, stepEnd)}</li>`;
+                }).join('')}</ol>`;
+
+            case 'button': {
+                const link = this.lines.slice(start, end).join(' ').match(/\[([^\]]*)\]\(\s*([^)\s]+)\s*\)/);
+                const type = parameter('type') === 'secondary' ? 'secondary' : 'primary';
+                const align = parameter('align');
+                const alignClass = align === 'left' || align === 'center' || align === 'right' ? ` align-${align}` : '';
+                const button = link
+                    ? `<a class="button ${type}" href="${escapeHtml(link[2])}">${this.renderInline(link[1])}</a>`
+                    : `<span class="button ${type}">${body()}</span>`;
+                return `<div class="button-wrapper${alignClass}" ${dataLine}>${button}</div>`;
+            }
+
+            case 'button-group': {
+                const align = parameter('align');
+                const justify = align === 'center' ? ' justify-center' : align === 'right' ? ' justify-end' : '';
+                return `<div class="button-group${justify}" ${dataLine}>${body()}</div>`;
+            }
+
+            case 'image':
+                return this.renderImage(block, argument, dataLine);
+
+            case 'carousel':
+                return `<div class="carousel" ${dataLine}>${block.children
+                    .filter(child => child.name === 'image')
+                    .map(image => this.renderImage(image, image.argument?.trim() ?? '', `data-line="${image.openingRange.start.line}"`))
+                    .join('')}</div>`;
+
+            case 'include':
+            case 'csv-include':
+                return `<div class="include" ${dataLine}>Included from <code>${escapeHtml(argument)}</code></div>`;
+
+            case 'diagram':
+            case 'math':
+                return `<div class="${block.name}" ${dataLine}><div class="directive-label">${block.name}${argument ? ` · ${escapeHtml(argument)}` : ''}</div>` +
+                    `<pre><code>${escapeHtml(this.lines.slice(start, end).filter((_, i) => !this.parameterLines.has(start + i)).join('\n'))}</code></pre></div>`;
+
+            case 'agent-skill': {
+                const url = parameter('url');
+                return `<div class="admonition agent-skill" ${dataLine}><div class="admonition-title">Agent skill</div>` +
+                    `<div class="admonition-content">${body()}${url ? `<p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p>` : ''}</div></div>`;
+            }
+
+            default:
+                return `<div class="directive" ${dataLine}><div class="directive-label">${escapeHtml(block.name)}${argument ? ` · ${this.renderInline(argument)}` : ''}</div>${body()}</div>`;
+        }
+    }
+
+    private renderImage(block: DirectiveBlock, path: string, dataLine: string): string {
+        const parameter = (name: string): string | undefined => block.parameters.find(p => p.name === name)?.value?.trim();
+        const attributes = [`src="${escapeHtml(this.context.resolveResource(path))}"`, `alt="${escapeHtml(parameter('alt') ?? '')}"`];
+        // Plain attributes rather than a style, which the content security policy would block
+        for (const name of ['width', 'height']) {
+            const value = parameter(name);
+            if (value) {
+                attributes.push(`${name}="${escapeHtml(value.replace(/px$/, ''))}"`);
+            }
+        }
+        const title = parameter('title');
+        const screenshot = block.parameters.some(p => p.name === 'screenshot');
+        return `<figure class="image${screenshot ? ' screenshot' : ''}" ${dataLine}><img ${attributes.join(' ')}>` +
+            `${title ? `<figcaption>${this.renderInline(title)}</figcaption>` : ''}</figure>`;
+    }
+
+    private renderAppliesTo(value: string): string {
+        const lines = parseAppliesToInline(value);
+        return lines.length > 0 ? this.renderBadges(lines) : `<span class="applies-badge">${escapeHtml(value)}</span>`;
+    }
+
+    private renderBadges(lines: AppliesToLine[]): string {
+        return getAppliesToBadges(lines)
+            .map(badge => `<span class="applies-badge${badge.planned ? ' planned' : ''}">${escapeHtml(formatAppliesToBadge(badge))}</span>`)
+            .join('');
+    }
+
+    private renderRole(name: string, content: string): string {
+        switch (name) {
+            case 'kbd':
+                return content.split('+').map(key =>
+                    `<kbd>${key.split('|').map(alternative => escapeHtml(alternative.trim())).join(' / ')}</kbd>`).join('+');
+            case 'icon':
+                return `<span class="icon" title="${escapeHtml(content)}">${escapeHtml(content)}</span>`;
+            case 'applies_to':
+                return this.renderAppliesTo(content);
+            case 'subs':
+                return `<code>${escapeHtml(replaceSubstitutions(content, this.substitutions))}</code>`;
+            default:
+                return `<code class="role" title="{${escapeHtml(name)}}">${escapeHtml(content)}</code>`;
+        }
+    }
+
+    /**
+     * Inline Markdown: roles and code spans first so nothing inside them is touched,
+     * then substitutions, images, links and emphasis.
+     */
+    private renderInline(text: string): string {
+        const stash: string[] = [];
+        const hold = (html: string): string => `\u0000${stash.push(html) - 1}\u0000`;
+
+        let result = text
+            .replace(NUL, '\uFFFD')
+            .replace(ROLE, (_, name: string, content: string) => hold(this.renderRole(name, content)))
+            .replace(INLINE_CODE, (_, _ticks: string, code: string) => hold(`<code>${escapeHtml(code.trim())}</code>`));
+
+        result = replaceSubstitutions(result, this.substitutions)
+            .replace(SUBSTITUTION, match => hold(`<span class="unresolved" title="Undefined substitution">${escapeHtml(match)}</span>`))
+            .replace(IMAGE, (_, alt: string, src: string, title?: string) =>
+                hold(`<img src="${escapeHtml(this.context.resolveResource(src))}" alt="${escapeHtml(alt)}"${title ? ` title="${escapeHtml(title)}"` : ''}>`))
+            .replace(LINK, (_, label: string, href: string) =>
+                hold(`<a href="${escapeHtml(href)}">${formatEmphasis(escapeHtml(label)) || escapeHtml(href)}</a>`));
+
+        result = formatEmphasis(escapeHtml(result));
+
+        // Placeholders can nest (code inside link text), so restore until none are left
+        for (let pass = 0; pass < MAX_PLACEHOLDER_PASSES && result.search(PLACEHOLDER) !== -1; pass++) {
+            result = result.replace(PLACEHOLDER, (_, index: string) => stash[Number(index)] ?? '');
+        }
+        return result.replace(NUL, '\uFFFD');
+    }
+}
+
+function formatEmphasis(html: string): string {
+    return html
+        .replace(/\*\*(?=\S)(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/__(?=\S)(.+?)__/g, '<strong>$1</strong>')
+        .replace(/\*(?=\S)(.+?)\*/g, '<em>$1</em>')
+        .replace(/(^|[^\w])_(?=\S)(.+?)_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)(.+?)~~/g, '<del>$1</del>');
+}
@@ -19,6 +19,7 @@
 
 import * as vscode from 'vscode';
 import { LIFECYCLE_STATES } from './appliesToValidator';
+import { getIconPreviewMarkdown } from './iconHoverProvider';
 
 // Re-export LIFECYCLE_STATES for backwards compatibility
 export { LIFECYCLE_STATES };
@@ -117,7 +118,8 @@ export class RoleCompletionProvider implements vscode.CompletionItemProvider {
             
             item.insertText = icon;
             item.detail = 'Icon name';
-            item.documentation = new vscode.MarkdownString(`Insert ${icon} icon`);
+            const preview = getIconPreviewMarkdown(icon);
+            item.documentation = new vscode.MarkdownString(preview ? `${preview}\n\nInsert ${icon} icon` : `Insert ${icon} icon`);
             
             return item;
         });
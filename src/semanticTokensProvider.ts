@@ -0,0 +1,183 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { DIRECTIVES } from './directives';
+import { MUTATION_OPERATORS } from './mutations';
+import { LIFECYCLE_STATES } from './appliesToValidator';
+import { getFrontmatterAppliesToLines } from './appliesToBadges';
+import { documentModelCache, isAppliesToFence, ParsedDocument } from './documentModel';
+
+// Token types and modifiers contributed in package.json, in legend order
+const TOKEN_TYPES = ['directive', 'directiveParameter', 'role', 'substitution', 'mutationOperator', 'lifecycle'] as const;
+const TOKEN_MODIFIERS = ['deprecated', 'unknown'] as const;
+
+type TokenType = typeof TOKEN_TYPES[number];
+type TokenModifier = typeof TOKEN_MODIFIERS[number];
+
+export const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend([...TOKEN_TYPES], [...TOKEN_MODIFIERS]);
+
+// A lifecycle state as the first word of an applies_to value
+const LIFECYCLE_KEYWORD = new RegExp(`(^|[:,])(\\s*)(${LIFECYCLE_STATES.join('|')})\\b`, 'g');
+
+// Lifecycles for features on their way out, shown as deprecated
+const RETIRED_LIFECYCLES = new Set(['deprecated', 'removed', 'discontinued']);
+
+interface Token {
+    line: number;
+    character: number;
+    length: number;
+    type: TokenType;
+    modifiers: TokenModifier[];
+}
+
+/**
+ * Colors directive names and parameters, role names, substitution variables, mutation
+ * operators and applies_to lifecycle keywords through the active theme.
+ * Code blocks are skipped, as they hold syntax samples rather than live markup.
+ */
+export class SemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    provideDocumentSemanticTokens(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.SemanticTokens> {
+        const builder = new vscode.SemanticTokensBuilder(SEMANTIC_TOKENS_LEGEND);
+        try {
+            const tokens = this.collectTokens(documentModelCache.get(document))
+                .sort((a, b) => a.line - b.line || a.character - b.character);
+
+            let previous: Token | undefined;
+            for (const token of tokens) {
+                // Tokens can't overlap; keep the first one
+                if (previous && previous.line === token.line && token.character < previous.character + previous.length) {
+                    continue;
+                }
+                builder.push(
+                    token.line,
+                    token.character,
+                    token.length,
+                    TOKEN_TYPES.indexOf(token.type),
+                    token.modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0)
+                );
+                previous = token;
+            }
+        } catch (error) {
+            outputChannel.appendLine(`Error computing semantic tokens: ${error}`);
+        }
+        return builder.build();
+    }
+
+    private collectTokens(model: ParsedDocument): Token[] {
+        const tokens: Token[] = [];
+        const add = (line: number, character: number, length: number, type: TokenType, modifiers: TokenModifier[] = []): void => {
+            if (length > 0) {
+                tokens.push({ line, character, length, type, modifiers });
+            }
+        };
+
+        const lastLine = model.lines.length - 1;
+        const fenced = new Set<number>();
+        for (const fence of model.codeFences) {
+            for (let line = fence.openingLine; line <= (fence.closingLine ?? lastLine); line++) {
+                fenced.add(line);
+            }
+        }
+
+        for (const block of model.directives) {
+            const line = block.openingRange.start.line;
+            if (fenced.has(line)) {
+                continue;
+            }
+            const directive = DIRECTIVES.find(d => d.name === block.name);
+            add(line, block.nameRange.start.character, block.nameRange.end.character - block.nameRange.start.character,
+                'directive', directive ? [] : ['unknown']);
+
+            for (const parameter of block.parameters) {
+                const parameterLine = parameter.range.start.line;
+                const character = model.lines[parameterLine].indexOf(`:${parameter.name}:`);
+                if (character === -1) {
+                    continue;
+                }
+                add(parameterLine, character, parameter.name.length + 2, 'directiveParameter',
+                    directive && !directive.parameters.includes(parameter.name) ? ['unknown'] : []);
+                if (parameter.name === 'applies_to') {
+                    this.addLifecycleKeywords(add, model.lines[parameterLine], parameterLine, character + parameter.name.length + 2);
+                }
+            }
+        }
+
+        for (const role of model.roles) {
+            const line = role.range.start.line;
+            if (fenced.has(line)) {
+                continue;
+            }
+            add(line, role.nameRange.start.character, role.nameRange.end.character - role.nameRange.start.character, 'role');
+            if (role.name === 'applies_to') {
+                this.addLifecycleKeywords(add, model.lines[line], line, role.contentRange.start.character, role.contentRange.end.character);
+            }
+        }
+
+        for (const substitution of model.substitutions) {
+            const line = substitution.range.start.line;
+            if (fenced.has(line)) {
+                continue;
+            }
+            add(line, substitution.variableRange.start.character,
+                substitution.variableRange.end.character - substitution.variableRange.start.character, 'substitution');
+
+            substitution.mutations.forEach((operator, index) => {
+                const range = substitution.mutationRanges[index];
+                add(line, range.start.character, operator.length, 'mutationOperator', MUTATION_OPERATORS[operator] ? [] : ['unknown']);
+            });
+        }
+
+        if (model.frontmatter) {
+            for (const appliesTo of getFrontmatterAppliesToLines(model.frontmatter)) {
+                this.addLifecycleKeywords(add, model.lines[appliesTo.line], appliesTo.line, 0);
+            }
+        }
+
+        for (const fence of model.codeFences) {
+            if (!isAppliesToFence(fence)) {
+                continue;
+            }
+            for (let line = fence.openingLine + 1; line < (fence.closingLine ?? model.lines.length); line++) {
+                this.addLifecycleKeywords(add, model.lines[line], line, 0);
+            }
+        }
+
+        return tokens;
+    }
+
+    private addLifecycleKeywords(
+        add: (line: number, character: number, length: number, type: TokenType, modifiers?: TokenModifier[]) => void,
+        text: string,
+        line: number,
+        start: number,
+        end = text.length
+    ): void {
+        const segment = text.substring(start, end);
+        for (const match of segment.matchAll(LIFECYCLE_KEYWORD)) {
+            const keyword = match[3];
+            add(line, start + match.index! + match[1].length + match[2].length, keyword.length, 'lifecycle',
+                RETIRED_LIFECYCLES.has(keyword) ? ['deprecated'] : []);
+        }
+    }
+}
@@ -19,9 +19,12 @@
 
 import * as vscode from 'vscode';
 import { outputChannel } from './logger';
+import { MUTATION_OPERATORS } from './mutations';
+import { findClosestMatches } from './editDistance';
 
 /**
  * Provides code actions (quick fixes) for substitution validation warnings
+ * and for mutation operators that are unknown, can't apply, or change nothing
  */
 export class SubstitutionCodeActionProvider implements vscode.CodeActionProvider {
     public static readonly providedCodeActionKinds = [
@@ -40,11 +43,28 @@ export class SubstitutionCodeActionProvider implements vscode.CodeActionProvider
             // Look for substitution diagnostics
             for (const diagnostic of context.diagnostics) {
                 try {
-                    if (diagnostic.source === 'Elastic Docs Substitutions' && diagnostic.code === 'use_sub') {
+                    if (diagnostic.source !== 'Elastic Docs Substitutions') {
+                        continue;
+                    }
+                    if (diagnostic.code === 'use_sub') {
                         const codeAction = this.createSubstitutionFixAction(document, diagnostic);
                         if (codeAction) {
                             codeActions.push(codeAction);
                         }
+                    } else if (diagnostic.code === 'unknown_mutation') {
+                        codeActions.push(...this.createOperatorFixActions(document, diagnostic));
+                    } else if (diagnostic.code === 'version_mutation_on_text') {
+                        const operator = document.getText(diagnostic.range);
+                        codeActions.push(this.createEditAction(
+                            `Remove '${operator}'`,
+                            document,
+                            diagnostic,
+                            this.getOperatorWithPipeRange(document, diagnostic.range),
+                            '',
+                            true
+                        ));
+                    } else if (diagnostic.code === 'noop_mutation') {
+                        codeActions.push(this.createEditAction('Remove mutations', document, diagnostic, diagnostic.range, '', true));
                     }
                 } catch (err) {
                     outputChannel.appendLine(`[SubstitutionCodeAction] Error processing diagnostic: ${err}`);
@@ -104,4 +124,46 @@ export class SubstitutionCodeActionProvider implements vscode.CodeActionProvider
             return undefined;
         }
     }
+
+    private createOperatorFixActions(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const operator = document.getText(diagnostic.range);
+        const actions = findClosestMatches(operator, Object.keys(MUTATION_OPERATORS)).map((suggestion, index) =>
+            this.createEditAction(`Change to '${suggestion}'`, document, diagnostic, diagnostic.range, suggestion, index === 0));
+        actions.push(this.createEditAction(
+            `Remove '${operator}'`,
+            document,
+            diagnostic,
+            this.getOperatorWithPipeRange(document, diagnostic.range),
+            '',
+            actions.length === 0
+        ));
+        return actions;
+    }
+
+    /**
+     * The operator together with the '|' and spaces in front of it
+     */
+    private getOperatorWithPipeRange(document: vscode.TextDocument, range: vscode.Range): vscode.Range {
+        const textBefore = document.lineAt(range.start.line).text.substring(0, range.start.character);
+        const match = textBefore.match(/\s*\|\s*$/);
+        const start = match ? range.start.character - match[0].length : range.start.character;
+        return new vscode.Range(range.start.line, start, range.end.line, range.end.character);
+    }
+
+    private createEditAction(
+        title: string,
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        range: vscode.Range,
+        newText: string,
+        isPreferred: boolean
+    ): vscode.CodeAction {
+        const fix = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        fix.diagnostics = [diagnostic];
+        fix.isPreferred = isPreferred;
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, range, newText);
+        fix.edit = edit;
+        return fix;
+    }
 }
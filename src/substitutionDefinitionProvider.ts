@@ -0,0 +1,64 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { getSubstitutions, getSubstitutionSources, resolveShorthand } from './substitutions';
+import { documentModelCache } from './documentModel';
+
+/**
+ * Go to Definition for {{variable}} substitutions.
+ * Jumps to the key in docset.yml, the page's sub: frontmatter,
+ * or the built-in products/versions virtual documents.
+ */
+export class SubstitutionDefinitionProvider implements vscode.DefinitionProvider {
+    provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Definition | vscode.LocationLink[]> {
+        try {
+            const occurrence = documentModelCache.get(document).substitutions.find(sub => sub.range.contains(position));
+            if (!occurrence) {
+                return null;
+            }
+
+            const resolved = resolveShorthand(occurrence.variableName, getSubstitutions(document.uri));
+            if (!resolved) {
+                return null;
+            }
+
+            const source = getSubstitutionSources(document.uri)[resolved.resolvedName];
+            if (!source) {
+                return null;
+            }
+
+            const link: vscode.LocationLink = {
+                originSelectionRange: occurrence.contentRange,
+                targetUri: source.uri,
+                targetRange: source.range,
+                targetSelectionRange: source.range
+            };
+            return [link];
+        } catch (error) {
+            outputChannel.appendLine(`Error in substitution definition: ${error}`);
+            return null;
+        }
+    }
+}
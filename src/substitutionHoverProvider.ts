@@ -19,7 +19,7 @@
 
 import * as vscode from 'vscode';
 import { outputChannel } from './logger';
-import { getSubstitutions, resolveShorthand } from './substitutions';
+import { getSubstitutions, getSubstitutionSources, resolveShorthand, SubstitutionSource } from './substitutions';
 import { parseSubstitution, MUTATION_OPERATORS } from './mutations';
 import { applyMutationChain } from './mutationEngine';
 
@@ -73,6 +73,11 @@ export class SubstitutionHoverProvider implements vscode.HoverProvider {
 
                     markdown.appendMarkdown(`**Value:** ${resolved.value}\n\n`);
 
+                    const source = getSubstitutionSources(document.uri)[resolved.resolvedName];
+                    if (source) {
+                        markdown.appendMarkdown(`**Defined in:** ${this.describeSource(source)}\n\n`);
+                    }
+
                     // If there are mutations, describe them and show computed results
                     if (mutations.length > 0) {
                         markdown.appendMarkdown(`**Mutations Applied:**\n\n`);
@@ -120,6 +125,22 @@ export class SubstitutionHoverProvider implements vscode.HoverProvider {
         }
     }
 
+    private describeSource(source: SubstitutionSource): string {
+        switch (source.origin) {
+            case 'product':
+                return 'Built-in product names';
+            case 'version':
+                return '`versions.yml` (docs-builder)';
+            case 'frontmatter':
+                return `Page frontmatter \`sub:\` (line ${source.range.start.line + 1})`;
+            default: {
+                const fileName = source.uri.path.substring(source.uri.path.lastIndexOf('/') + 1);
+                const target = source.uri.with({ fragment: `L${source.range.start.line + 1}` });
+                return `[${fileName}](${target.toString()}) (line ${source.range.start.line + 1})`;
+            }
+        }
+    }
+
     private getSubstitutionVariableRange(document: vscode.TextDocument, position: vscode.Position): vscode.Range | null {
         const lineText = document.lineAt(position).text;
         const char = position.character;
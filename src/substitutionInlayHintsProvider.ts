@@ -0,0 +1,95 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache } from './documentModel';
+import { getSubstitutions, resolveShorthand } from './substitutions';
+import { applyMutationChain } from './mutationEngine';
+
+export const SUBSTITUTION_INLAY_HINTS_SETTING = 'elastic-docs-v3.inlayHints.substitutionValues';
+
+/**
+ * Shows the value each {{variable}} renders to, after its mutation chain, right after the closing braces.
+ * Variables that can't be resolved get no hint; the undefined substitution diagnostic covers them.
+ */
+export class SubstitutionInlayHintsProvider implements vscode.InlayHintsProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private readonly configurationListener: vscode.Disposable;
+
+    readonly onDidChangeInlayHints = this.changeEmitter.event;
+
+    constructor() {
+        this.configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(SUBSTITUTION_INLAY_HINTS_SETTING)) {
+                this.changeEmitter.fire();
+            }
+        });
+    }
+
+    /**
+     * Ask the editor for new hints, e.g. after substitution values were reloaded
+     */
+    refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    provideInlayHints(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.InlayHint[]> {
+        if (!vscode.workspace.getConfiguration().get<boolean>(SUBSTITUTION_INLAY_HINTS_SETTING, true)) {
+            return [];
+        }
+
+        try {
+            const occurrences = documentModelCache.get(document).substitutions.filter(sub => range.intersection(sub.range));
+            if (occurrences.length === 0) {
+                return [];
+            }
+
+            const substitutions = getSubstitutions(document.uri);
+            const hints: vscode.InlayHint[] = [];
+            for (const occurrence of occurrences) {
+                const resolved = resolveShorthand(occurrence.variableName, substitutions);
+                if (!resolved) {
+                    continue;
+                }
+
+                const results = applyMutationChain(resolved.value, occurrence.mutations);
+                const hint = new vscode.InlayHint(occurrence.range.end, `→ ${results[results.length - 1]}`);
+                hint.paddingLeft = true;
+                hint.tooltip = occurrence.mutations.length > 0
+                    ? `${resolved.resolvedName} = ${resolved.value}, then ${occurrence.mutations.join(' | ')}`
+                    : `${resolved.resolvedName} = ${resolved.value}`;
+                hints.push(hint);
+            }
+            return hints;
+        } catch (error) {
+            outputChannel.appendLine(`Error computing substitution inlay hints: ${error}`);
+            return [];
+        }
+    }
+
+    dispose(): void {
+        this.configurationListener.dispose();
+        this.changeEmitter.dispose();
+    }
+}
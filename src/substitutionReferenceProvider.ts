@@ -0,0 +1,255 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import {
+    getSubstitutions,
+    getSubstitutionSources,
+    resolveShorthand,
+    extractDocsetSubstitutions,
+    extractFrontmatterSubstitutions,
+    SubstitutionSource
+} from './substitutions';
+import { documentModelCache, parseDocumentText, ParsedDocument } from './documentModel';
+import { readFile } from './fileSystem';
+
+interface SubstitutionTarget {
+    /** Fully resolved key, e.g. "product.kibana" rather than ".kibana" */
+    key: string;
+    /** Where the key is declared, if anywhere */
+    source?: SubstitutionSource;
+    /** Range of the key under the cursor */
+    range: vscode.Range;
+}
+
+interface SubstitutionReference {
+    location: vscode.Location;
+    isShorthand: boolean;
+}
+
+const VALID_KEY_PATTERN = /^[a-zA-Z0-9_][a-zA-Z0-9_.-]*$/;
+
+/**
+ * Find All References and Rename for substitution keys.
+ * Works from a {{variable}} in a page, a 'sub:' key in frontmatter, or a 'subs:' key in docset.yml.
+ * Docset keys are searched under the docset's folder; pages that override the key in their own frontmatter are left alone.
+ */
+export class SubstitutionReferenceProvider implements vscode.ReferenceProvider, vscode.RenameProvider {
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[]> {
+        try {
+            const target = this.resolveTarget(document, position);
+            if (!target) {
+                return [];
+            }
+
+            const references = await this.findReferences(target, token);
+            const locations = references.map(ref => ref.location);
+
+            if (context.includeDeclaration && target.source && this.isRenameable(target.source)) {
+                locations.unshift(new vscode.Location(target.source.uri, target.source.range));
+            }
+
+            return locations;
+        } catch (error) {
+            outputChannel.appendLine(`Error finding substitution references: ${error}`);
+            return [];
+        }
+    }
+
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Range | { range: vscode.Range; placeholder: string }> {
+        const target = this.resolveTarget(document, position);
+        if (!target) {
+            throw new Error('Rename is only available on substitution keys');
+        }
+        if (!target.source) {
+            throw new Error(`Substitution '${target.key}' is not defined`);
+        }
+        if (!this.isRenameable(target.source)) {
+            throw new Error(`'${target.key}' is a built-in substitution and can't be renamed`);
+        }
+
+        return { range: target.range, placeholder: target.key };
+    }
+
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): Promise<vscode.WorkspaceEdit | null> {
+        const target = this.resolveTarget(document, position);
+        if (!target || !target.source || !this.isRenameable(target.source)) {
+            return null;
+        }
+
+        newName = newName.trim();
+        if (!VALID_KEY_PATTERN.test(newName)) {
+            throw new Error(`'${newName}' is not a valid substitution key`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            label: `Rename {{${target.key}}} to {{${newName}}}`,
+            needsConfirmation: true
+        };
+
+        edit.replace(target.source.uri, target.source.range, newName, { ...metadata, needsConfirmation: false });
+
+        const references = await this.findReferences(target, token);
+        for (const reference of references) {
+            const replacement = reference.isShorthand && newName.startsWith('product.')
+                ? `.${newName.substring('product.'.length)}`
+                : newName;
+            const isLocal = reference.location.uri.toString() === document.uri.toString();
+            edit.replace(reference.location.uri, reference.location.range, replacement, { ...metadata, needsConfirmation: !isLocal });
+        }
+
+        outputChannel.appendLine(`[SubstitutionRename] Renaming '${target.key}' to '${newName}' in ${references.length} places`);
+        return edit;
+    }
+
+    private isRenameable(source: SubstitutionSource): boolean {
+        return source.origin === 'docset' || source.origin === 'frontmatter';
+    }
+
+    private resolveTarget(document: vscode.TextDocument, position: vscode.Position): SubstitutionTarget | null {
+        if (this.isDocsetFile(document)) {
+            const sources = extractDocsetSubstitutions(document.uri, document.getText());
+            for (const [key, source] of Object.entries(sources)) {
+                if (source.range.contains(position)) {
+                    return { key, source, range: source.range };
+                }
+            }
+            return null;
+        }
+
+        const model = documentModelCache.get(document);
+
+        // A 'sub:' key in the page's frontmatter
+        if (model.frontmatter && model.frontmatter.range.contains(position)) {
+            const sources = extractFrontmatterSubstitutions(document.uri, document.getText());
+            for (const [key, source] of Object.entries(sources)) {
+                if (source.range.contains(position)) {
+                    return { key, source, range: source.range };
+                }
+            }
+            return null;
+        }
+
+        // A {{variable}} in the page body
+        const occurrence = model.substitutions.find(sub => sub.variableRange.contains(position));
+        if (!occurrence) {
+            return null;
+        }
+
+        const resolved = resolveShorthand(occurrence.variableName, getSubstitutions(document.uri));
+        const key = resolved ? resolved.resolvedName : occurrence.variableName;
+        return {
+            key,
+            source: getSubstitutionSources(document.uri)[key],
+            range: occurrence.variableRange
+        };
+    }
+
+    private async findReferences(target: SubstitutionTarget, token: vscode.CancellationToken): Promise<SubstitutionReference[]> {
+        const files = await this.findCandidateFiles(target.source);
+
+        const references: SubstitutionReference[] = [];
+        for (const uri of files) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+
+            try {
+                const { model, text } = await this.loadModel(uri);
+
+                // A page that defines the key in its own frontmatter shadows the docset value
+                if (target.source?.origin !== 'frontmatter' && extractFrontmatterSubstitutions(uri, text)[target.key]) {
+                    continue;
+                }
+
+                // Pages that pick up the key from another docset.yml are about a different variable
+                if (target.source?.origin === 'docset' && !this.isDefinedIn(getSubstitutionSources(uri)[target.key], target.source.uri)) {
+                    continue;
+                }
+
+                for (const occurrence of model.substitutions) {
+                    const isShorthand = occurrence.variableName.startsWith('.');
+                    if (occurrence.variableName === target.key ||
+                        (isShorthand && `product${occurrence.variableName}` === target.key)) {
+                        references.push({
+                            location: new vscode.Location(uri, occurrence.variableRange),
+                            isShorthand
+                        });
+                    }
+                }
+            } catch (error) {
+                outputChannel.appendLine(`[SubstitutionReferences] Could not scan ${uri.toString()}: ${error}`);
+            }
+        }
+
+        return references;
+    }
+
+    private async findCandidateFiles(source: SubstitutionSource | undefined): Promise<vscode.Uri[]> {
+        // Frontmatter subs are scoped to their own page
+        if (source?.origin === 'frontmatter') {
+            return [source.uri];
+        }
+
+        // Docset subs only apply to pages under the docset's folder
+        const pattern = source?.origin === 'docset'
+            ? new vscode.RelativePattern(vscode.Uri.joinPath(source.uri, '..'), '**/*.md')
+            : '**/*.md';
+        return vscode.workspace.findFiles(pattern, '**/node_modules/**');
+    }
+
+    /**
+     * Compares files rather than key ranges: the target may come from an edited docset.yml
+     * while page sources are read from the saved one
+     */
+    private isDefinedIn(source: SubstitutionSource | undefined, docsetUri: vscode.Uri): boolean {
+        return source?.origin === 'docset' && source.uri.toString() === docsetUri.toString();
+    }
+
+    private async loadModel(uri: vscode.Uri): Promise<{ model: ParsedDocument; text: string }> {
+        // Prefer open documents so unsaved edits are taken into account
+        const open = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        if (open) {
+            return { model: documentModelCache.get(open), text: open.getText() };
+        }
+
+        const text = await readFile(uri);
+        return { model: parseDocumentText(uri, text), text };
+    }
+
+    private isDocsetFile(document: vscode.TextDocument): boolean {
+        return document.fileName.endsWith('docset.yml');
+    }
+}
@@ -20,6 +20,7 @@
 import * as vscode from 'vscode';
 import { getSubstitutions } from './substitutions';
 import { performanceLogger } from './performanceLogger';
+import { documentModelCache } from './documentModel';
 
 interface ValidationError {
     range: vscode.Range;
@@ -53,17 +54,12 @@ export class SubstitutionValidationProvider {
         return performanceLogger.measureSync(
             'SubstitutionValidation.validateContent',
             () => {
-                const text = document.getText();
                 const substitutions = getSubstitutions(document.uri);
-
-                // Find frontmatter range to exclude it from validation
-                const frontmatterMatch = text.match(/^---\s*\n[\s\S]*?\n---/);
-                const frontmatterEnd = frontmatterMatch ? frontmatterMatch[0].length : 0;
+                const model = documentModelCache.get(document);
 
                 // Only validate content after frontmatter
-                const contentToValidate = text.substring(frontmatterEnd);
-                const lines = contentToValidate.split('\n');
-                const lineOffset = text.substring(0, frontmatterEnd).split('\n').length - 1;
+                const lineOffset = model.frontmatter ? model.frontmatter.endLine + 1 : 0;
+                const lines = model.lines.slice(lineOffset);
 
                 // PERFORMANCE OPTIMIZATION: Pre-compile all regex patterns
                 // Exclude version substitutions since version numbers are ambiguous without context
@@ -91,10 +87,7 @@ export class SubstitutionValidationProvider {
                     }
                 }
             },
-            {
-                fileName: document.fileName,
-                substitutionCount: Object.keys(getSubstitutions(document.uri)).length
-            }
+            { fileName: document.fileName }
         );
     }
 
@@ -23,11 +23,37 @@ import { PRODUCTS } from './products';
 import { performanceLogger } from './performanceLogger';
 import { VersionsCache } from './versionsCache';
 import { pathUtils, existsSync, readFileSync, isDirectorySync, isWeb, readFile } from './fileSystem';
+import { parseSubstitution } from './mutations';
+import { applyMutationChain } from './mutationEngine';
+import { buildProductsDocument, buildVersionsDocument, PRODUCTS_DOCUMENT_URI, VERSIONS_DOCUMENT_URI } from './builtInSubstitutionDocuments';
 
 interface SubstitutionVariables {
     [key: string]: string;
 }
 
+export type SubstitutionOrigin = 'docset' | 'frontmatter' | 'version' | 'product';
+
+/**
+ * Where a substitution value is defined
+ */
+export interface SubstitutionSource {
+    value: string;
+    origin: SubstitutionOrigin;
+    uri: vscode.Uri;
+    /** Range of the key in the defining document */
+    range: vscode.Range;
+}
+
+export interface SubstitutionSources {
+    [key: string]: SubstitutionSource;
+}
+
+interface KeyedValue {
+    value: string;
+    line: number;
+    character: number;
+}
+
 interface ParsedYaml {
     [key: string]: unknown;
 }
@@ -35,6 +61,7 @@ interface ParsedYaml {
 // Centralized cache for substitutions
 class SubstitutionCache {
     private cache: Map<string, SubstitutionVariables> = new Map();
+    private sources: Map<string, SubstitutionSources> = new Map();
 
     get(key: string): SubstitutionVariables | undefined {
         return this.cache.get(key);
@@ -44,16 +71,26 @@ class SubstitutionCache {
         this.cache.set(key, value);
     }
 
+    getSources(key: string): SubstitutionSources | undefined {
+        return this.sources.get(key);
+    }
+
+    setSources(key: string, value: SubstitutionSources): void {
+        this.sources.set(key, value);
+    }
+
     clear(): void {
         this.cache.clear();
+        this.sources.clear();
     }
 
     has(key: string): boolean {
-        return this.cache.has(key);
+        return this.cache.has(key) || this.sources.has(key);
     }
 
     delete(key: string): boolean {
-        return this.cache.delete(key);
+        const deletedSources = this.sources.delete(key);
+        return this.cache.delete(key) || deletedSources;
     }
 }
 
@@ -61,7 +98,7 @@ class SubstitutionCache {
 export const substitutionCache = new SubstitutionCache();
 
 // Store for pre-loaded docset files in web environment
-const preloadedDocsets = new Map<string, SubstitutionVariables>();
+const preloadedDocsets = new Map<string, { uri: vscode.Uri; subs: Record<string, KeyedValue> }>();
 let webInitializationComplete = false;
 let webInitializationPromise: Promise<void> | null = null;
 
@@ -98,15 +135,11 @@ async function doInitializeWeb(): Promise<void> {
             try {
                 outputChannel.appendLine(`[Substitutions] Pre-loading: ${docsetUri.toString()}`);
                 const content = await readFile(docsetUri);
-                const parsed = parseYaml(content);
-                
-                if (parsed && typeof parsed === 'object' && 'subs' in parsed) {
-                    const subs = parsed.subs;
-                    if (typeof subs === 'object' && subs !== null) {
-                        const result = subs as SubstitutionVariables;
-                        preloadedDocsets.set(docsetUri.fsPath, result);
-                        outputChannel.appendLine(`[Substitutions] Loaded ${Object.keys(result).length} substitutions from ${docsetUri.fsPath}`);
-                    }
+                const subs = extractKeyedSection(content, 'subs');
+
+                if (subs) {
+                    preloadedDocsets.set(docsetUri.fsPath, { uri: docsetUri, subs });
+                    outputChannel.appendLine(`[Substitutions] Loaded ${Object.keys(subs).length} substitutions from ${docsetUri.fsPath}`);
                 }
             } catch (error) {
                 outputChannel.appendLine(`[Substitutions] Error loading ${docsetUri.toString()}: ${error}`);
@@ -159,6 +192,22 @@ export function resolveShorthand(variableName: string, substitutions: Substituti
     return null;
 }
 
+/**
+ * Replace every {{variable}} in a piece of text with its value, applying any mutation chain.
+ * Variables that can't be resolved are left as written.
+ */
+export function replaceSubstitutions(text: string, substitutions: SubstitutionVariables): string {
+    return text.replace(/\{\{([^}]+)\}\}/g, (match, content: string) => {
+        const { variableName, mutations } = parseSubstitution(content);
+        const resolved = resolveShorthand(variableName, substitutions);
+        if (!resolved) {
+            return match;
+        }
+        const results = applyMutationChain(resolved.value, mutations);
+        return results[results.length - 1];
+    });
+}
+
 export function getSubstitutions(documentUri: vscode.Uri): SubstitutionVariables {
   return performanceLogger.measureSync(
     'Substitutions.getSubstitutions',
@@ -169,7 +218,46 @@ export function getSubstitutions(documentUri: vscode.Uri): SubstitutionVariables
           return cached;
       }
 
+      const sources = getSubstitutionSources(documentUri);
       const substitutions: SubstitutionVariables = {};
+      for (const [key, source] of Object.entries(sources)) {
+          substitutions[key] = source.value;
+      }
+
+      const orderedKeys = Object.keys(substitutions).sort((a: string, b: string) => {
+          return substitutions[b].length - substitutions[a].length;
+      });
+      const orderedSubs = orderedKeys.reduce(
+          (obj: { [key: string]: string }, key: string) => {
+              obj[key] = substitutions[key];
+              return obj;
+          },
+          {} as { [key: string]: string }
+      );
+
+      // Cache the result before returning
+      substitutionCache.set(documentUri.fsPath, orderedSubs);
+
+      return orderedSubs;
+    },
+    { documentPath: documentUri.fsPath }
+  );
+}
+
+/**
+ * Resolve all substitutions for a document together with the location that defines each one.
+ * Later sources override earlier ones: docset files, then page frontmatter, then versions, then products.
+ */
+export function getSubstitutionSources(documentUri: vscode.Uri): SubstitutionSources {
+  return performanceLogger.measureSync(
+    'Substitutions.getSubstitutionSources',
+    () => {
+      const cached = substitutionCache.getSources(documentUri.fsPath);
+      if (cached) {
+          return cached;
+      }
+
+      const sources: SubstitutionSources = {};
 
       // Log environment for debugging
       outputChannel.appendLine(`[Substitutions] Environment: ${isWeb ? 'WEB' : 'NODE'}`);
@@ -182,9 +270,9 @@ export function getSubstitutions(documentUri: vscode.Uri): SubstitutionVariables
 
           for (const docsetFile of docsetFiles) {
               outputChannel.appendLine(`[Substitutions] Parsing: ${docsetFile}`);
-              const unorderedSubs = parseDocsetFile(docsetFile);
+              const { uri, subs } = parseDocsetFile(docsetFile);
               // Allow all custom substitutions from docset.yml, including product name overrides
-              Object.assign(substitutions, unorderedSubs);
+              addKeyedValues(sources, subs, 'docset', uri, 0);
           }
 
       } catch (error) {
@@ -194,7 +282,8 @@ export function getSubstitutions(documentUri: vscode.Uri): SubstitutionVariables
       // Parse frontmatter subs from the current document
       try {
           const frontmatterSubs = parseFrontmatterSubs(documentUri);
-          Object.assign(substitutions, frontmatterSubs);
+          // Frontmatter content starts on the line after the opening ---
+          addKeyedValues(sources, frontmatterSubs, 'frontmatter', documentUri, 1);
       } catch (error) {
           outputChannel.appendLine(`Error parsing frontmatter subs: ${error}`);
       }
@@ -203,8 +292,15 @@ export function getSubstitutions(documentUri: vscode.Uri): SubstitutionVariables
       try {
           const versionsCache = VersionsCache.getInstance();
           const versions = versionsCache.getVersions();
+          const { keyRanges } = buildVersionsDocument();
           for (const [key, value] of Object.entries(versions)) {
-              substitutions[`version.${key}`] = value;
+              const name = `version.${key}`;
+              sources[name] = {
+                  value,
+                  origin: 'version',
+                  uri: VERSIONS_DOCUMENT_URI,
+                  range: keyRanges[name] ?? new vscode.Range(0, 0, 0, 0)
+              };
           }
       } catch (error) {
           // Fail silently as requested
@@ -212,30 +308,62 @@ export function getSubstitutions(documentUri: vscode.Uri): SubstitutionVariables
       }
 
       // Add centralized product name subs
+      const { keyRanges } = buildProductsDocument();
       for (const [key, value] of Object.entries(PRODUCTS)) {
-          substitutions[`product.${key}`] = value;
+          const name = `product.${key}`;
+          sources[name] = {
+              value,
+              origin: 'product',
+              uri: PRODUCTS_DOCUMENT_URI,
+              range: keyRanges[name]
+          };
       }
 
-      const orderedKeys = Object.keys(substitutions).sort((a: string, b: string) => {
-          return substitutions[b].length - substitutions[a].length;
-      });
-      const orderedSubs = orderedKeys.reduce(
-          (obj: { [key: string]: string }, key: string) => {
-              obj[key] = substitutions[key];
-              return obj;
-          },
-          {} as { [key: string]: string }
-      );
-
-      // Cache the result before returning
-      substitutionCache.set(documentUri.fsPath, orderedSubs);
+      substitutionCache.setSources(documentUri.fsPath, sources);
 
-      return orderedSubs;
+      return sources;
     },
     { documentPath: documentUri.fsPath }
   );
 }
 
+/**
+ * Substitutions defined in the 'subs:' section of a docset.yml file, with their key locations
+ */
+export function extractDocsetSubstitutions(uri: vscode.Uri, content: string): SubstitutionSources {
+    const sources: SubstitutionSources = {};
+    addKeyedValues(sources, extractKeyedSection(content, 'subs') ?? {}, 'docset', uri, 0);
+    return sources;
+}
+
+/**
+ * Substitutions defined in the 'sub:' frontmatter of a markdown page, with their key locations
+ */
+export function extractFrontmatterSubstitutions(uri: vscode.Uri, content: string): SubstitutionSources {
+    const sources: SubstitutionSources = {};
+    // Frontmatter content starts on the line after the opening ---
+    addKeyedValues(sources, extractSubsFromFrontmatter(content), 'frontmatter', uri, 1);
+    return sources;
+}
+
+function addKeyedValues(
+    sources: SubstitutionSources,
+    values: Record<string, KeyedValue>,
+    origin: SubstitutionOrigin,
+    uri: vscode.Uri,
+    lineOffset: number
+): void {
+    for (const [key, entry] of Object.entries(values)) {
+        const line = entry.line + lineOffset;
+        sources[key] = {
+            value: entry.value,
+            origin,
+            uri,
+            range: new vscode.Range(line, entry.character, line, entry.character + key.length)
+        };
+    }
+}
+
 // PERFORMANCE OPTIMIZATION: Helper functions moved outside main function for better performance
 function findDocsetFiles(documentUri: vscode.Uri): string[] {
     return performanceLogger.measureSync(
@@ -321,10 +449,11 @@ function findDocsetFiles(documentUri: vscode.Uri): string[] {
     );
 }
 
-function parseDocsetFile(filePath: string): SubstitutionVariables {
+function parseDocsetFile(filePath: string): { uri: vscode.Uri; subs: Record<string, KeyedValue> } {
     return performanceLogger.measureSync(
         'Substitutions.parseDocsetFile',
         () => {
+            const uri = vscode.Uri.file(filePath);
             try {
                 // In web environment, use preloaded data
                 if (isWeb) {
@@ -334,34 +463,21 @@ function parseDocsetFile(filePath: string): SubstitutionVariables {
                         return preloaded;
                     }
                     outputChannel.appendLine(`[parseDocsetFile] No preloaded data for: ${filePath}`);
-                    return {};
+                    return { uri, subs: {} };
                 }
 
                 const content = readFileSync(filePath);
-                const parsed = parseYaml(content);
-
-                if (parsed && typeof parsed === 'object' && 'subs' in parsed) {
-                    const subs = parsed.subs;
-
-                    // The subs section is already properly parsed as key-value pairs
-                    if (typeof subs === 'object' && subs !== null) {
-                        const result = subs as SubstitutionVariables;
-                        return result;
-                    }
-                    return subs as unknown as SubstitutionVariables;
-                }
-
-                return {};
+                return { uri, subs: extractKeyedSection(content, 'subs') ?? {} };
             } catch (error) {
                 outputChannel.appendLine(`Error parsing docset file ${filePath}: ${error}`);
-                return {};
+                return { uri, subs: {} };
             }
         },
         { filePath }
     );
 }
 
-function parseFrontmatterSubs(documentUri: vscode.Uri): SubstitutionVariables {
+function parseFrontmatterSubs(documentUri: vscode.Uri): Record<string, KeyedValue> {
     return performanceLogger.measureSync(
         'Substitutions.parseFrontmatterSubs',
         () => {
@@ -384,53 +500,71 @@ function parseFrontmatterSubs(documentUri: vscode.Uri): SubstitutionVariables {
     );
 }
 
-function extractSubsFromFrontmatter(content: string): SubstitutionVariables {
+function extractSubsFromFrontmatter(content: string): Record<string, KeyedValue> {
     // Match frontmatter: starts with --- and ends with ---
     const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
     if (!frontmatterMatch) {
         return {};
     }
 
-    const frontmatter = frontmatterMatch[1];
-    const parsed = parseYaml(frontmatter);
-
     // Check for 'sub:' field in frontmatter
-    if (parsed && typeof parsed === 'object' && 'sub' in parsed) {
-        const sub = parsed.sub;
-        if (typeof sub === 'object' && sub !== null) {
-            return sub as SubstitutionVariables;
-        }
+    return extractKeyedSection(frontmatterMatch[1], 'sub') ?? {};
+}
+
+/**
+ * Parse the 'subs' or 'sub' section of a YAML document, keeping the position of each key
+ */
+function extractKeyedSection(content: string, section: 'subs' | 'sub'): Record<string, KeyedValue> | null {
+    const keyPositions: Record<string, { line: number; character: number }> = {};
+    const parsed = parseYaml(content, keyPositions);
+
+    if (!parsed || typeof parsed !== 'object' || !(section in parsed)) {
+        return null;
     }
 
-    return {};
+    const values = parsed[section];
+    if (typeof values !== 'object' || values === null) {
+        return null;
+    }
+
+    const result: Record<string, KeyedValue> = {};
+    for (const [key, value] of Object.entries(values as SubstitutionVariables)) {
+        const position = keyPositions[`${section}.${key}`] ?? { line: 0, character: 0 };
+        result[key] = { value, line: position.line, character: position.character };
+    }
+    return result;
 }
 
-function parseYaml(content: string): ParsedYaml {
+/**
+ * Positions are recorded under the section path, e.g. "subs.product", so keys of the same name
+ * in other parts of the file don't take their place
+ */
+function parseYaml(content: string, keyPositions?: Record<string, { line: number; character: number }>): ParsedYaml {
     // Simple YAML parser for the specific structure we need
     const lines = content.split('\n');
     const result: ParsedYaml = {};
     let currentSection: ParsedYaml | null = null;
+    let currentSectionName = '';
     let currentIndent = 0;
 
-    for (const line of lines) {
+    for (const [lineIndex, line] of lines.entries()) {
         const trimmed = line.trim();
         if (!trimmed || trimmed.startsWith('#')) continue;
 
         const indent = line.length - line.trimStart().length;
 
         // Check for both 'subs:' (docset.yml) and 'sub:' (frontmatter)
-        if (trimmed === 'subs:') {
-            result.subs = {};
-            currentSection = result.subs as ParsedYaml;
+        if (trimmed === 'subs:' || trimmed === 'sub:') {
+            currentSectionName = trimmed.slice(0, -1);
+            result[currentSectionName] = {};
+            currentSection = result[currentSectionName] as ParsedYaml;
             currentIndent = indent;
             continue;
         }
 
-        if (trimmed === 'sub:') {
-            result.sub = {};
-            currentSection = result.sub as ParsedYaml;
-            currentIndent = indent;
-            continue;
+        // A key at the section's own level or above ends the section
+        if (currentSection && indent <= currentIndent) {
+            currentSection = null;
         }
 
         if (currentSection && indent > currentIndent) {
@@ -443,6 +577,9 @@ function parseYaml(content: string): ParsedYaml {
                 // Remove quotes if present
                 const cleanValue = value.replace(/^["']|["']$/g, '');
                 currentSection[key] = cleanValue;
+                if (keyPositions) {
+                    keyPositions[`${currentSectionName}.${key}`] = { line: lineIndex, character: indent };
+                }
             }
         }
     }
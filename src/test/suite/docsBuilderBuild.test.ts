@@ -0,0 +1,159 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { DocsBuilderBuildRunner, parseDocsBuilderOutput } from '../../docsBuilderBuild';
+
+suite('parseDocsBuilderOutput', () => {
+    test('reads a severity header followed by a location line', () => {
+        const output = [
+            'Error: Unknown directive \'notee\'',
+            '   ┌─ docs/index.md:12:1',
+            '   │',
+            'Warning: Heading level skipped',
+            '   ┌─ docs/setup.md:4'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseDocsBuilderOutput(output), [
+            { severity: 'error', message: 'Unknown directive \'notee\'', file: 'docs/index.md', line: 12, column: 1 },
+            { severity: 'warning', message: 'Heading level skipped', file: 'docs/setup.md', line: 4, column: undefined }
+        ]);
+    });
+
+    test('reads single-line messages in both location styles', () => {
+        const output = 'docs/index.md:3:5: error: Broken link\ndocs/toc.yml(7,2): warning: Unlisted page';
+
+        assert.deepStrictEqual(parseDocsBuilderOutput(output), [
+            { severity: 'error', message: 'Broken link', file: 'docs/index.md', line: 3, column: 5 },
+            { severity: 'warning', message: 'Unlisted page', file: 'docs/toc.yml', line: 7, column: 2 }
+        ]);
+    });
+
+    test('reads GitHub Actions annotations and maps notices to hints', () => {
+        const output = '::error file=docs/index.md,line=3,col=1::Broken link\n::notice file=docs/index.md::Consider a shorter title';
+
+        assert.deepStrictEqual(parseDocsBuilderOutput(output), [
+            { severity: 'error', message: 'Broken link', file: 'docs/index.md', line: 3, column: 1 },
+            { severity: 'hint', message: 'Consider a shorter title', file: 'docs/index.md', line: undefined, column: undefined }
+        ]);
+    });
+
+    test('ignores ANSI colors and informational lines', () => {
+        const output = '\u001b[32minfo\u001b[0m: Building docs\n\u001b[31mError\u001b[0m: Broken link\n  ┌─ index.md:2:1';
+
+        assert.deepStrictEqual(parseDocsBuilderOutput(output), [
+            { severity: 'error', message: 'Broken link', file: 'index.md', line: 2, column: 1 }
+        ]);
+    });
+});
+
+suite('DocsBuilderBuildRunner', function () {
+    let tempDir: string;
+    let docsDir: string;
+    let originalPath: string | undefined;
+    let diagnosticCollection: vscode.DiagnosticCollection;
+
+    // Stands in for docs-builder: reports its version, then prints problems and fails like a broken build
+    const STUB_DOCS_BUILDER = [
+        '#!/bin/sh',
+        'if [ "$1" = "--version" ]; then echo 0.120.0; exit 0; fi',
+        'echo "info: Building $2"',
+        // One write, so the header and its location line can't be split by stdout output
+        'printf "Error: Unknown directive \'notee\'\\n   ┌─ index.md:3:1\\n" >&2',
+        'echo "index.md:2:5: warning: Heading level skipped"',
+        'echo "::error file=$2/setup.md,line=1::Broken link"',
+        'echo "missing.md:1:1: error: Not in the docset"',
+        'exit 1',
+        ''
+    ].join('\n');
+
+    suiteSetup(function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docs-builder-test-'));
+        docsDir = path.join(tempDir, 'docs');
+        const binDir = path.join(tempDir, 'bin');
+        fs.mkdirSync(docsDir);
+        fs.mkdirSync(binDir);
+        fs.writeFileSync(path.join(docsDir, 'docset.yml'), 'project: Test\ntoc:\n  - file: index.md\n  - file: setup.md\n');
+        fs.writeFileSync(path.join(docsDir, 'index.md'), '# Test\n\n:::{notee}\n:::\n');
+        fs.writeFileSync(path.join(docsDir, 'setup.md'), '# Setup\n');
+        fs.writeFileSync(path.join(binDir, 'docs-builder'), STUB_DOCS_BUILDER, { mode: 0o755 });
+
+        originalPath = process.env.PATH;
+        process.env.PATH = `${binDir}${path.delimiter}${originalPath ?? ''}`;
+        diagnosticCollection = vscode.languages.createDiagnosticCollection('docs-builder-test');
+    });
+
+    suiteTeardown(() => {
+        if (!tempDir) {
+            return;
+        }
+        process.env.PATH = originalPath;
+        diagnosticCollection.dispose();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('maps the problems a failed build reports to the files they belong to', async () => {
+        // The failed build asks whether to open the Problems view; answer without waiting for a click
+        const window = vscode.window as { showErrorMessage: typeof vscode.window.showErrorMessage };
+        const showErrorMessage = window.showErrorMessage;
+        const messages: string[] = [];
+        window.showErrorMessage = (async (message: string) => {
+            messages.push(message);
+            return undefined;
+        }) as typeof vscode.window.showErrorMessage;
+
+        try {
+            const runner = new DocsBuilderBuildRunner(diagnosticCollection);
+            await runner.build(vscode.Uri.file(path.join(docsDir, 'docset.yml')));
+            assert.strictEqual(runner.isRunning(), false);
+        } finally {
+            window.showErrorMessage = showErrorMessage;
+        }
+
+        assert.deepStrictEqual(messages, ['docs-builder finished with 3 errors and 1 warning.']);
+
+        // stdout and stderr arrive in no fixed order, so compare by position
+        const indexDiagnostics = [...diagnosticCollection.get(vscode.Uri.file(path.join(docsDir, 'index.md'))) ?? []]
+            .sort((a, b) => a.range.start.line - b.range.start.line);
+        assert.deepStrictEqual(
+            indexDiagnostics.map(d => [d.severity, d.range.start.line, d.range.start.character, d.message, d.source]),
+            [
+                [vscode.DiagnosticSeverity.Warning, 1, 4, 'Heading level skipped', 'docs-builder'],
+                [vscode.DiagnosticSeverity.Error, 2, 0, 'Unknown directive \'notee\'', 'docs-builder']
+            ]
+        );
+
+        const setupDiagnostics = diagnosticCollection.get(vscode.Uri.file(path.join(docsDir, 'setup.md'))) ?? [];
+        assert.deepStrictEqual(
+            setupDiagnostics.map(d => [d.severity, d.range.start.line, d.message]),
+            [[vscode.DiagnosticSeverity.Error, 0, 'Broken link']]
+        );
+
+        // Problems in files that don't exist are logged, not published
+        assert.strictEqual(diagnosticCollection.get(vscode.Uri.file(path.join(docsDir, 'missing.md'))), undefined);
+    });
+});
@@ -0,0 +1,57 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+import * as assert from 'assert';
+import { getIconPreviewMarkdown } from '../../iconHoverProvider';
+import { ICON_SVGS } from '../../iconSvgs';
+
+/**
+ * Root <svg> element of the image in an icon preview
+ */
+function previewRoot(name: string): string {
+    const markdown = getIconPreviewMarkdown(name);
+    const data = markdown?.match(/\(data:image\/svg\+xml;base64,([^)]+)\)$/)?.[1];
+    assert.ok(data, `No data URI for '${name}'`);
+    const root = Buffer.from(data, 'base64').toString().match(/^<svg[^>]*>/)?.[0];
+    assert.ok(root, `No root element for '${name}'`);
+    return root;
+}
+
+suite('getIconPreviewMarkdown', () => {
+    test('gives every bundled icon a root element with unique attributes', () => {
+        for (const name of Object.keys(ICON_SVGS)) {
+            const attributes = [...previewRoot(name).matchAll(/\s([a-zA-Z:-]+)=/g)].map(match => match[1]);
+            assert.deepStrictEqual(attributes, [...new Set(attributes)], `Duplicate attribute in '${name}'`);
+        }
+    });
+
+    test('sizes icons and fills glyphs whose root fill is none', () => {
+        const root = previewRoot('analyzeEvent');
+        assert.match(root, /\swidth="32"/);
+        assert.match(root, /\sheight="32"/);
+        assert.match(root, /\sfill="#8c8c8c"/);
+    });
+
+    test('keeps the root fill of logos that color their own shapes', () => {
+        assert.match(previewRoot('logo_golang'), /\sfill="none"/);
+    });
+
+    test('returns undefined for icons that are not bundled', () => {
+        assert.strictEqual(getIconPreviewMarkdown('notAnIcon'), undefined);
+    });
+});
@@ -0,0 +1,117 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { findFilesInFolder } from './fileSystem';
+import { parseTocEntries, getChildBaseUri, RawTocEntry, TOC_FILE_NAMES } from './docsetNavigation';
+
+// A path key being typed, e.g. '  - file: guide/'
+const TOC_PATH_PATTERN = /^\s*(?:-\s+)?(file|hidden|folder|toc):\s*(\S*)$/;
+
+/**
+ * Path completion for 'file:', 'hidden:', 'folder:' and 'toc:' values in docset.yml and toc.yml.
+ * Paths are offered relative to the folder the entry resolves against.
+ */
+export class TocCompletionProvider implements vscode.CompletionItemProvider {
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+        _context: vscode.CompletionContext
+    ): Promise<vscode.CompletionItem[]> {
+        try {
+            const textBefore = document.lineAt(position).text.substring(0, position.character);
+            const match = textBefore.match(TOC_PATH_PATTERN);
+            if (!match) {
+                return [];
+            }
+
+            const [, key, typed] = match;
+            const range = new vscode.Range(position.line, position.character - typed.length, position.line, position.character);
+            const baseUri = this.getBaseUri(document, position.line);
+            const basePath = baseUri.path.endsWith('/') ? baseUri.path : `${baseUri.path}/`;
+            const files = (await findFilesInFolder(baseUri, key === 'toc' ? `**/{${TOC_FILE_NAMES.join(',')}}` : '**/*.md'))
+                // Snippets and other '_' folders never go in a toc
+                .filter(uri => !uri.path.substring(basePath.length).split('/').slice(0, -1).some(segment => segment.startsWith('_')));
+
+            if (key === 'file' || key === 'hidden') {
+                return files.map(uri => {
+                    const relative = uri.path.substring(basePath.length);
+                    const item = new vscode.CompletionItem(relative, vscode.CompletionItemKind.File);
+                    item.range = range;
+                    // Files in this folder first
+                    item.sortText = `${String(relative.split('/').length).padStart(3, '0')}${relative}`;
+                    return item;
+                });
+            }
+
+            // Folders that contain pages, or for 'toc:' a toc.yml
+            const folders = new Set<string>();
+            for (const uri of files) {
+                const segments = uri.path.substring(basePath.length).split('/').slice(0, -1);
+                if (key === 'toc') {
+                    if (segments.length > 0) {
+                        folders.add(segments.join('/'));
+                    }
+                    continue;
+                }
+                for (let i = 1; i <= segments.length; i++) {
+                    folders.add(segments.slice(0, i).join('/'));
+                }
+            }
+
+            return [...folders].sort().map(folder => {
+                const item = new vscode.CompletionItem(folder, vscode.CompletionItemKind.Folder);
+                item.range = range;
+                return item;
+            });
+        } catch (error) {
+            outputChannel.appendLine(`Error in toc completion: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Folder the entry on the given line resolves against, following its parent entries
+     */
+    private getBaseUri(document: vscode.TextDocument, line: number): vscode.Uri {
+        let baseUri = vscode.Uri.joinPath(document.uri, '..');
+
+        const findParents = (entries: RawTocEntry[], parents: RawTocEntry[]): RawTocEntry[] | undefined => {
+            for (let i = 0; i < entries.length; i++) {
+                const next = entries[i + 1];
+                if (entries[i].itemLine <= line && (!next || next.itemLine > line)) {
+                    const chain = [...parents, entries[i]];
+                    return findParents(entries[i].children, chain) ?? chain;
+                }
+            }
+            return undefined;
+        };
+
+        // The innermost match is the entry being edited; the rest are its parents
+        const parents = (findParents(parseTocEntries(document.getText()), []) ?? []).slice(0, -1);
+        for (const parent of parents) {
+            if (parent.kind) {
+                baseUri = getChildBaseUri(parent.kind, vscode.Uri.joinPath(baseUri, parent.value));
+            }
+        }
+        return baseUri;
+    }
+}
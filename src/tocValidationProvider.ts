@@ -0,0 +1,203 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { exists, isDirectory, findFilesInFolder } from './fileSystem';
+import {
+    parseTocEntries,
+    getChildBaseUri,
+    findTocFile,
+    isFileInNavigation,
+    docsetNavigationCache,
+    RawTocEntry,
+    TocEntryKind,
+    TOC_ENTRY_KINDS
+} from './docsetNavigation';
+
+// Keys docs-builder accepts on a toc item besides the path keys
+const OTHER_TOC_KEYS = ['children', 'title', 'crosslink', 'detection_rules'];
+
+/**
+ * Validates the 'toc:' section of docset.yml and toc.yml files,
+ * and finds pages of a docset that no toc lists.
+ */
+export class TocValidationProvider {
+    async validateDocument(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const entries = parseTocEntries(document.getText());
+        const baseUri = vscode.Uri.joinPath(document.uri, '..');
+
+        await this.validateEntries(document, entries, baseUri, diagnostics, new Set());
+
+        for (const diagnostic of diagnostics) {
+            diagnostic.source = 'Elastic Docs Navigation';
+        }
+        return diagnostics;
+    }
+
+    private async validateEntries(
+        document: vscode.TextDocument,
+        entries: RawTocEntry[],
+        baseUri: vscode.Uri,
+        diagnostics: vscode.Diagnostic[],
+        listedFiles: Set<string>
+    ): Promise<void> {
+        for (const entry of entries) {
+            const itemRange = document.lineAt(entry.itemLine).range;
+            const pathKeys = entry.keys.filter(key => TOC_ENTRY_KINDS.includes(key.name as TocEntryKind));
+
+            // 1. Unknown keys
+            for (const key of entry.keys) {
+                if (!TOC_ENTRY_KINDS.includes(key.name as TocEntryKind) && !OTHER_TOC_KEYS.includes(key.name)) {
+                    diagnostics.push(new vscode.Diagnostic(
+                        key.range,
+                        `Unknown toc key '${key.name}'. Expected one of: ${[...TOC_ENTRY_KINDS, ...OTHER_TOC_KEYS].join(', ')}`,
+                        vscode.DiagnosticSeverity.Warning
+                    ));
+                }
+            }
+
+            // 2. Exactly one path key per entry (cross-links are resolved elsewhere)
+            if (pathKeys.length === 0) {
+                if (!entry.keys.some(key => key.name === 'crosslink')) {
+                    diagnostics.push(new vscode.Diagnostic(
+                        itemRange,
+                        "Toc entry needs one of 'file:', 'hidden:', 'folder:' or 'toc:'",
+                        vscode.DiagnosticSeverity.Error
+                    ));
+                }
+                continue;
+            }
+            if (pathKeys.length > 1) {
+                diagnostics.push(new vscode.Diagnostic(
+                    pathKeys[1].range,
+                    `Toc entry declares both '${pathKeys[0].name}:' and '${pathKeys[1].name}:'. Use only one`,
+                    vscode.DiagnosticSeverity.Error
+                ));
+            }
+            if (!entry.kind) {
+                diagnostics.push(new vscode.Diagnostic(
+                    pathKeys[0].range,
+                    `Missing path for '${pathKeys[0].name}:'`,
+                    vscode.DiagnosticSeverity.Error
+                ));
+                continue;
+            }
+
+            const valueRange = new vscode.Range(entry.line, entry.valueStart, entry.line, entry.valueStart + entry.value.length);
+            const resolvedUri = vscode.Uri.joinPath(baseUri, entry.value);
+
+            // 3. Only files and folders can have children
+            const childrenKey = entry.keys.find(key => key.name === 'children');
+            if (childrenKey && (entry.kind === 'hidden' || entry.kind === 'toc')) {
+                diagnostics.push(new vscode.Diagnostic(
+                    childrenKey.range,
+                    `'${entry.kind}:' entries can't have children`,
+                    vscode.DiagnosticSeverity.Error
+                ));
+            }
+
+            // 4. Referenced files and folders must exist
+            if (entry.kind === 'file' || entry.kind === 'hidden') {
+                if (!entry.value.toLowerCase().endsWith('.md')) {
+                    diagnostics.push(new vscode.Diagnostic(
+                        valueRange,
+                        `'${entry.kind}:' must point to a Markdown (.md) file`,
+                        vscode.DiagnosticSeverity.Error
+                    ));
+                } else if (!(await exists(resolvedUri))) {
+                    diagnostics.push(new vscode.Diagnostic(
+                        valueRange,
+                        `File '${entry.value}' does not exist`,
+                        vscode.DiagnosticSeverity.Error
+                    ));
+                } else if (listedFiles.has(resolvedUri.toString())) {
+                    diagnostics.push(new vscode.Diagnostic(
+                        valueRange,
+                        `'${entry.value}' is already listed in this toc`,
+                        vscode.DiagnosticSeverity.Warning
+                    ));
+                }
+                listedFiles.add(resolvedUri.toString());
+            } else if (!(await isDirectory(resolvedUri))) {
+                diagnostics.push(new vscode.Diagnostic(
+                    valueRange,
+                    `Folder '${entry.value}' does not exist`,
+                    vscode.DiagnosticSeverity.Error
+                ));
+            } else if (entry.kind === 'toc' && !(await findTocFile(resolvedUri))) {
+                diagnostics.push(new vscode.Diagnostic(
+                    valueRange,
+                    `Folder '${entry.value}' has no toc.yml`,
+                    vscode.DiagnosticSeverity.Error
+                ));
+            }
+
+            await this.validateEntries(document, entry.children, getChildBaseUri(entry.kind, resolvedUri), diagnostics, listedFiles);
+        }
+    }
+
+    /**
+     * Pages of a docset that aren't reachable from its navigation.
+     * Snippets and other files in folders starting with '_' are never listed, so they're skipped.
+     */
+    async findUnlistedPages(docsetUri: vscode.Uri): Promise<vscode.Uri[]> {
+        const navigation = await docsetNavigationCache.get(docsetUri);
+        if (navigation.entries.length === 0) {
+            return [];
+        }
+
+        const rootPath = navigation.rootUri.path;
+        const pages = await findFilesInFolder(navigation.rootUri, '**/*.md');
+
+        return pages.filter(uri => {
+            const relative = uri.path.substring(rootPath.length);
+            return !relative.split('/').some(segment => segment.startsWith('_')) &&
+                !isFileInNavigation(navigation, uri);
+        });
+    }
+
+    /**
+     * Warnings for every unlisted page of the given docsets, keyed by page
+     */
+    async provideUnlistedPageDiagnostics(docsetUris: vscode.Uri[]): Promise<[vscode.Uri, vscode.Diagnostic[]][]> {
+        const results: [vscode.Uri, vscode.Diagnostic[]][] = [];
+
+        for (const docsetUri of docsetUris) {
+            try {
+                const docsetName = vscode.workspace.asRelativePath(docsetUri);
+                for (const page of await this.findUnlistedPages(docsetUri)) {
+                    const diagnostic = new vscode.Diagnostic(
+                        new vscode.Range(0, 0, 0, 0),
+                        `This page is not included in any toc of ${docsetName}`,
+                        vscode.DiagnosticSeverity.Warning
+                    );
+                    diagnostic.code = 'not_in_toc';
+                    diagnostic.source = 'Elastic Docs Navigation';
+                    results.push([page, [diagnostic]]);
+                }
+            } catch (error) {
+                outputChannel.appendLine(`[TocValidation] Could not check pages of ${docsetUri.toString()}: ${error}`);
+            }
+        }
+
+        return results;
+    }
+}
@@ -20,15 +20,23 @@
 import * as vscode from 'vscode';
 import { outputChannel } from './logger';
 import { getSubstitutions, resolveShorthand } from './substitutions';
-import { parseSubstitution } from './mutations';
+import { documentModelCache, SubstitutionOccurrence } from './documentModel';
+import { MUTATION_OPERATORS, VERSION_MUTATION_OPERATORS } from './mutations';
+import { applyMutation, isVersionValue } from './mutationEngine';
+import { findClosestMatches, formatDidYouMean } from './editDistance';
 
 interface ValidationError {
     range: vscode.Range;
     message: string;
     severity: vscode.DiagnosticSeverity;
     code?: string;
+    tags?: vscode.DiagnosticTag[];
 }
 
+/**
+ * Checks that each {{variable}} is defined and that its mutation chain does something:
+ * operators must exist, version operators need a version, and the chain should change the value.
+ */
 export class UndefinedSubstitutionValidator {
     public validateDocument(document: vscode.TextDocument): vscode.Diagnostic[] {
         outputChannel.appendLine(`[UndefinedSubstitutionValidator] Validating document: ${document.fileName}`);
@@ -40,42 +48,81 @@ export class UndefinedSubstitutionValidator {
             if (error.code) {
                 diagnostic.code = error.code;
             }
+            if (error.tags) {
+                diagnostic.tags = error.tags;
+            }
             diagnostic.source = 'Elastic Docs Substitutions';
             return diagnostic;
         });
     }
 
     private validateContent(errors: ValidationError[], document: vscode.TextDocument): void {
-        const text = document.getText();
         const substitutions = getSubstitutions(document.uri);
 
-        // Match all {{...}} patterns
-        const subRegex = /\{\{([^}]+)\}\}/g;
-        let match;
-
-        while ((match = subRegex.exec(text)) !== null) {
-            const fullMatch = match[0];
-            const content = match[1];
-            const startOffset = match.index;
-            const endOffset = startOffset + fullMatch.length;
-
-            // Parse to get variable name (without mutations)
-            const { variableName } = parseSubstitution(content);
-
+        // All {{...}} occurrences come from the shared document model
+        for (const occurrence of documentModelCache.get(document).substitutions) {
             // Check if this substitution is defined (including shorthand resolution)
-            const resolved = resolveShorthand(variableName, substitutions);
+            const resolved = resolveShorthand(occurrence.variableName, substitutions);
             if (!resolved) {
-                const startPos = document.positionAt(startOffset);
-                const endPos = document.positionAt(endOffset);
-                const range = new vscode.Range(startPos, endPos);
-
                 errors.push({
-                    range,
-                    message: `Undefined substitution variable: '${variableName}'`,
+                    range: occurrence.range,
+                    message: `Undefined substitution variable: '${occurrence.variableName}'`,
                     severity: vscode.DiagnosticSeverity.Information,
                     code: 'undefined_sub'
                 });
             }
+
+            this.validateMutations(errors, occurrence, resolved?.value);
+        }
+    }
+
+    /**
+     * Unknown operators are reported even when the variable is undefined; the checks that
+     * depend on the value only run when it resolves
+     */
+    private validateMutations(errors: ValidationError[], occurrence: SubstitutionOccurrence, value: string | undefined): void {
+        if (occurrence.mutations.length === 0) {
+            return;
+        }
+
+        let current = value;
+        let hasProblem = false;
+        occurrence.mutations.forEach((operator, index) => {
+            const range = occurrence.mutationRanges[index];
+            if (!MUTATION_OPERATORS[operator]) {
+                const suggestions = findClosestMatches(operator, Object.keys(MUTATION_OPERATORS));
+                errors.push({
+                    range,
+                    message: `Unknown mutation operator '${operator}'${formatDidYouMean(suggestions)}`,
+                    severity: vscode.DiagnosticSeverity.Warning,
+                    code: 'unknown_mutation'
+                });
+                hasProblem = true;
+            } else if (current !== undefined && VERSION_MUTATION_OPERATORS.includes(operator) && !isVersionValue(current)) {
+                errors.push({
+                    range,
+                    message: `Mutation '${operator}' expects a version, but '${current}' is not one, so it renders unchanged`,
+                    severity: vscode.DiagnosticSeverity.Warning,
+                    code: 'version_mutation_on_text'
+                });
+                hasProblem = true;
+            }
+            if (current !== undefined) {
+                current = applyMutation(current, operator);
+            }
+        });
+
+        // Version values change with every release, so only text chains are judged on the current value
+        const hasVersionOperator = occurrence.mutations.some(operator => VERSION_MUTATION_OPERATORS.includes(operator));
+        if (!hasProblem && !hasVersionOperator && value !== undefined && current === value) {
+            const lastRange = occurrence.mutationRanges[occurrence.mutationRanges.length - 1];
+            errors.push({
+                range: new vscode.Range(occurrence.variableRange.end, lastRange.end),
+                message: `Mutations '${occurrence.mutations.join(' | ')}' leave '${value}' unchanged`,
+                severity: vscode.DiagnosticSeverity.Hint,
+                code: 'noop_mutation',
+                tags: [vscode.DiagnosticTag.Unnecessary]
+            });
         }
     }
 }
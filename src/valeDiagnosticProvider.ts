@@ -0,0 +1,231 @@
+/*
+ * Copyright Elasticsearch B.V. and/or licensed to Elasticsearch B.V. under one
+ * or more contributor license agreements. See the NOTICE file distributed with
+ * this work for additional information regarding copyright
+ * ownership. Elasticsearch B.V. licenses this file to you under
+ * the Apache License, Version 2.0 (the "License"); you may
+ * not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *	http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied.  See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import * as vscode from 'vscode';
+import { outputChannel } from './logger';
+import { documentModelCache, ParsedDocument } from './documentModel';
+import { findDocsetForDocument } from './docsetNavigation';
+
+// Detect if we're running in a web environment
+const isWeb = typeof process === 'undefined' || typeof process.versions === 'undefined' || typeof process.versions.node === 'undefined';
+
+const VALE_COMMAND = 'vale';
+
+/**
+ * An alert as printed by `vale --output=JSON`
+ */
+export interface ValeAlert {
+    Check: string;
+    Message: string;
+    Severity: 'error' | 'warning' | 'suggestion';
+    Line: number;
+    /** 1-based, inclusive start and end columns */
+    Span: [number, number];
+    Link?: string;
+    Match?: string;
+}
+
+/**
+ * Parse `vale --output=JSON` output: alerts keyed by file path
+ */
+export function parseValeOutput(output: string): ValeAlert[] {
+    const trimmed = output.trim();
+    if (!trimmed) {
+        return [];
+    }
+
+    const parsed = JSON.parse(trimmed);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return [];
+    }
+    // Runtime errors are reported as {"Code": ..., "Text": ...}
+    if (typeof parsed.Text === 'string' && typeof parsed.Code === 'string') {
+        throw new Error(parsed.Text);
+    }
+
+    const alerts: ValeAlert[] = [];
+    for (const fileAlerts of Object.values(parsed)) {
+        if (Array.isArray(fileAlerts)) {
+            alerts.push(...fileAlerts as ValeAlert[]);
+        }
+    }
+    return alerts;
+}
+
+/**
+ * Ranges Vale reads as prose but docs-builder doesn't: frontmatter,
+ * directive opening and closing fences with their parameters, and {{substitutions}}.
+ */
+function getIgnoredRanges(model: ParsedDocument): vscode.Range[] {
+    const ranges: vscode.Range[] = [];
+
+    if (model.frontmatter) {
+        ranges.push(model.frontmatter.range);
+    }
+    for (const block of model.directives) {
+        ranges.push(block.openingRange);
+        if (block.closingRange) {
+            ranges.push(block.closingRange);
+        }
+        for (const parameter of block.parameters) {
+            ranges.push(parameter.range);
+        }
+    }
+    for (const substitution of model.substitutions) {
+        ranges.push(substitution.range);
+    }
+
+    return ranges;
+}
+
+/**
+ * Lints saved docset pages with the local Vale installation and shows its alerts as diagnostics.
+ */
+export class ValeDiagnosticProvider implements vscode.Disposable {
+    private readonly running = new Map<string, { kill(): boolean }>();
+    // Only used to log a missing Vale once; every save tries again, so installing it needs no reload
+    private valeMissing = false;
+
+    constructor(private readonly diagnosticCollection: vscode.DiagnosticCollection) {}
+
+    async lint(document: vscode.TextDocument): Promise<void> {
+        if (isWeb || document.languageId !== 'markdown' || document.uri.scheme !== 'file') {
+            return;
+        }
+        if (!(await findDocsetForDocument(document.uri))) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        this.running.get(key)?.kill();
+
+        const version = document.version;
+        let output: string;
+        try {
+            output = await this.run(document.uri.fsPath, key);
+        } catch (err) {
+            // A missing Vale is logged once by run()
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                outputChannel.appendLine(`[vale] ${err}`);
+            }
+            return;
+        }
+
+        // A newer save (or a close) superseded this run
+        if (document.isClosed) {
+            return;
+        }
+        // The alerts of the previous run no longer line up with the edited text
+        if (document.version !== version) {
+            this.diagnosticCollection.delete(document.uri);
+            return;
+        }
+
+        let alerts: ValeAlert[];
+        try {
+            alerts = parseValeOutput(output);
+        } catch (err) {
+            outputChannel.appendLine(`[vale] Could not lint ${document.fileName}: ${err}`);
+            return;
+        }
+
+        const ignored = getIgnoredRanges(documentModelCache.get(document));
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const alert of alerts) {
+            const line = Math.max(alert.Line - 1, 0);
+            if (line >= document.lineCount) {
+                continue;
+            }
+            const range = new vscode.Range(line, Math.max(alert.Span[0] - 1, 0), line, Math.max(alert.Span[1], alert.Span[0]));
+            if (ignored.some(ignoredRange => ignoredRange.intersection(range) !== undefined)) {
+                continue;
+            }
+
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                alert.Message,
+                alert.Severity === 'error' ? vscode.DiagnosticSeverity.Error
+                    : alert.Severity === 'warning' ? vscode.DiagnosticSeverity.Warning
+                    : vscode.DiagnosticSeverity.Information
+            );
+            diagnostic.source = 'vale';
+            diagnostic.code = alert.Link
+                ? { value: alert.Check, target: vscode.Uri.parse(alert.Link) }
+                : alert.Check;
+            diagnostics.push(diagnostic);
+        }
+
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+
+    clear(uri: vscode.Uri): void {
+        this.running.get(uri.toString())?.kill();
+        this.diagnosticCollection.delete(uri);
+    }
+
+    dispose(): void {
+        for (const child of this.running.values()) {
+            child.kill();
+        }
+        this.running.clear();
+    }
+
+    /**
+     * Run Vale on a file from its folder, so it picks up the nearest .vale.ini
+     */
+    private run(filePath: string, key: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const { spawn } = require('child_process');
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const path = require('path');
+
+            const child = spawn(VALE_COMMAND, ['--output=JSON', filePath], { cwd: path.dirname(filePath) });
+            this.running.set(key, child);
+
+            let stdout = '';
+            let stderr = '';
+            child.stdout.on('data', (chunk: Buffer) => stdout += chunk.toString());
+            child.stderr.on('data', (chunk: Buffer) => stderr += chunk.toString());
+            child.on('spawn', () => this.valeMissing = false);
+            child.on('error', (err: NodeJS.ErrnoException) => {
+                if (err.code === 'ENOENT') {
+                    if (!this.valeMissing) {
+                        outputChannel.appendLine('[vale] Vale is not installed or not on the PATH, skipping linting');
+                    }
+                    this.valeMissing = true;
+                }
+                reject(err);
+            });
+            child.on('close', (code: number | null) => {
+                if (this.running.get(key) === child) {
+                    this.running.delete(key);
+                }
+                // Vale exits with 1 when it reports errors, 2 when it fails to run
+                if (code === null) {
+                    reject(new Error(`Linting ${filePath} was cancelled`));
+                } else if (code > 1 && !stdout.trim()) {
+                    reject(new Error(stderr.trim() || `Exited with code ${code}`));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+}